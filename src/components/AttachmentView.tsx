@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Download, FileIcon, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AttachmentDescriptor,
+  downloadAttachment,
+  formatFileSize,
+  loadAttachmentPreview,
+} from '@/lib/attachments';
+
+// Image types shown inline; anything else (including SVG) is offered as a download
+const PREVIEW_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const MAX_PREVIEW_SIZE = 10 * 1024 * 1024;
+
+export function AttachmentView({
+  attachment,
+  isOwn,
+}: {
+  attachment: AttachmentDescriptor;
+  isOwn: boolean;
+}) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewFailed, setPreviewFailed] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const showPreview =
+    PREVIEW_TYPES.includes(attachment.mimeType) && attachment.size <= MAX_PREVIEW_SIZE;
+
+  useEffect(() => {
+    if (!showPreview) return;
+
+    let cancelled = false;
+    loadAttachmentPreview(attachment)
+      .then((url) => {
+        if (!cancelled) setPreviewUrl(url);
+      })
+      .catch((err) => {
+        console.error('Failed to load attachment preview:', err);
+        if (!cancelled) setPreviewFailed(true);
+      });
+
+    // The URL stays cached for the next mount until clearAttachmentPreviews revokes it
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, showPreview]);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const blob = await downloadAttachment(attachment);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err) {
+      console.error('Failed to download attachment:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to download or decrypt the attachment',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {showPreview && !previewFailed && (
+        previewUrl ? (
+          <img
+            src={previewUrl}
+            alt={attachment.filename}
+            className="max-h-64 rounded-lg cursor-pointer"
+            onClick={handleDownload}
+          />
+        ) : (
+          <div className="h-32 w-48 rounded-lg bg-black/10 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        )
+      )}
+      <div className="flex items-center gap-2">
+        <FileIcon className="w-4 h-4 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm truncate">{attachment.filename}</p>
+          <p className={`text-xs ${isOwn ? 'text-white/70' : 'text-muted-foreground'}`}>
+            {formatFileSize(attachment.size)}
+            {previewFailed && ' · preview unavailable'}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={handleDownload}
+          disabled={downloading}
+          aria-label={`Download ${attachment.filename}`}
+        >
+          {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { createConversation } from '@/lib/groups';
+
+export function CreateGroupDialog({
+  userId,
+  users,
+  onCreated,
+}: {
+  userId: string;
+  users: { id: string; username: string }[];
+  onCreated?: (conversationId: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    setMemberIds((prev) => (checked ? [...prev, userId] : prev.filter((id) => id !== userId)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || memberIds.length === 0) return;
+
+    setCreating(true);
+    try {
+      const conversationId = await createConversation({ name: name.trim() }, memberIds, userId);
+      setOpen(false);
+      setName('');
+      setMemberIds([]);
+      onCreated?.(conversationId);
+    } catch (err) {
+      console.error('Error creating group:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to create group',
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="New group">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleCreate} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>New group</DialogTitle>
+            <DialogDescription>
+              Group messages and the group's name are end-to-end encrypted. Each member's messages
+              are encrypted once with a key that is shared with the other members over their
+              identity keys.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Group name"
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            <ScrollArea className="h-48 rounded-lg border border-border">
+              <div className="p-2 space-y-1">
+                {users.map((u) => (
+                  <label
+                    key={u.id}
+                    className="flex items-center gap-3 rounded-md p-2 hover:bg-secondary/50 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={memberIds.includes(u.id)}
+                      onCheckedChange={(checked) => toggleMember(u.id, checked === true)}
+                    />
+                    <span className="text-sm truncate">{u.username}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={creating || !name.trim() || memberIds.length === 0}
+              className="bg-gradient-primary"
+            >
+              {creating ? 'Creating...' : 'Create group'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
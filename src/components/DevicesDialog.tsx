@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { Check, MonitorSmartphone, Pencil, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Device, listDevices, renameDevice, revokeDevice } from '@/lib/devices';
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : 'never';
+}
+
+export function DevicesDialog({ userId }: { userId: string }) {
+  const [open, setOpen] = useState(false);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const { device: currentDevice } = useAuth();
+  const { toast } = useToast();
+
+  const loadDevices = async () => {
+    setLoading(true);
+    try {
+      setDevices(await listDevices(userId));
+    } catch (err) {
+      console.error('Error loading devices:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to load devices',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadDevices();
+  }, [open, userId]);
+
+  const startEditing = (device: Device) => {
+    setEditingId(device.id);
+    setName(device.name);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !name.trim()) return;
+
+    try {
+      await renameDevice(editingId, name.trim());
+      setEditingId(null);
+      await loadDevices();
+    } catch (err) {
+      console.error('Error renaming device:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to rename device',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRevoke = async (device: Device) => {
+    try {
+      await revokeDevice(device.id);
+      toast({
+        title: 'Device revoked',
+        description: `${device.name} no longer receives new messages.`,
+      });
+      await loadDevices();
+    } catch (err) {
+      console.error('Error revoking device:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke device',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setEditingId(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <MonitorSmartphone className="w-4 h-4 mr-2" />
+          Devices
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Your devices</DialogTitle>
+          <DialogDescription>
+            Every browser you sign in from gets its own key. Revoke devices you no longer use so
+            they stop receiving new messages.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading devices...</p>
+        ) : (
+          <ul className="space-y-3">
+            {devices.map((device) => (
+              <li key={device.id} className="rounded-lg border border-border p-3 space-y-2">
+                {editingId === device.id ? (
+                  <form onSubmit={handleRename} className="flex gap-2">
+                    <Input
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      aria-label="Device name"
+                      autoFocus
+                    />
+                    <Button type="submit" size="icon" variant="ghost" disabled={!name.trim()}>
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button type="button" size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{device.name}</span>
+                    {device.id === currentDevice?.id && <Badge variant="secondary">This device</Badge>}
+                    {device.revoked && <Badge variant="destructive">Revoked</Badge>}
+                    {!device.revoked && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="ml-auto h-8 w-8"
+                        onClick={() => startEditing(device)}
+                        aria-label="Rename device"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-end justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    Added {formatDate(device.created_at)}
+                    <br />
+                    Last seen {formatDate(device.last_seen_at)}
+                  </p>
+
+                  {!device.revoked && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" variant="outline" className="text-destructive">
+                          Revoke
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Revoke {device.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {device.id === currentDevice?.id
+                              ? 'This is the device you are using. It will stop receiving new messages. This cannot be undone.'
+                              : 'The device stops receiving new messages. This cannot be undone.'}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleRevoke(device)}>
+                            Revoke
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { LogOut, UserPlus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  canInvite,
+  canRemove,
+  Conversation,
+  ConversationMember,
+  inviteMember,
+  leaveConversation,
+  memberRole,
+  removeMember,
+  resealConversationMetadata,
+  setMemberRole,
+} from '@/lib/groups';
+
+const ROLE_LABELS = { owner: 'Owner', admin: 'Admin', member: 'Member' };
+
+export function GroupMembersDialog({
+  conversation,
+  name,
+  userId,
+  users,
+  onChanged,
+  onLeft,
+}: {
+  conversation: Conversation;
+  // Decrypted group name
+  name: string;
+  userId: string;
+  users: { id: string; username: string }[];
+  onChanged?: () => void;
+  onLeft?: () => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const ownRole = memberRole(conversation, userId);
+  const usernameOf = (id: string) =>
+    id === userId ? 'You' : users.find((u) => u.id === id)?.username ?? 'Unknown user';
+  const invitable = users.filter((u) => !conversation.members.some((member) => member.userId === u.id));
+
+  // Run a membership change, then let the parent reload the conversation
+  const run = async (action: () => Promise<void>, failure: string, after = onChanged) => {
+    setBusy(true);
+    try {
+      await action();
+      after?.();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? `${failure}: ${err.message}` : failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = (member: ConversationMember) =>
+    run(async () => {
+      await removeMember(conversation.id, member.userId);
+      await resealConversationMetadata(conversation.id, userId);
+      toast({
+        title: 'Member removed',
+        description: `${usernameOf(member.userId)} can no longer read new messages in ${name}.`,
+      });
+    }, 'Failed to remove member');
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Users className="w-4 h-4 mr-2" />
+          Members
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{name}</DialogTitle>
+          <DialogDescription>
+            {conversation.members.length} members. Removing someone rotates everyone's group keys,
+            so they cannot read messages sent after they left.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-72">
+          <ul className="space-y-2 pr-3">
+            {conversation.members.map((member) => (
+              <li key={member.userId} className="flex items-center gap-3 rounded-lg border border-border p-2">
+                <Avatar className="w-8 h-8">
+                  <AvatarFallback className="bg-gradient-primary text-white text-sm">
+                    {usernameOf(member.userId)[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="flex-1 min-w-0 truncate text-sm font-medium">{usernameOf(member.userId)}</span>
+                {member.role !== 'member' && <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>}
+
+                {ownRole === 'owner' && member.userId !== userId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busy}
+                    onClick={() =>
+                      run(
+                        () =>
+                          setMemberRole(
+                            conversation.id,
+                            member.userId,
+                            member.role === 'admin' ? 'member' : 'admin'
+                          ),
+                        'Failed to change role'
+                      )
+                    }
+                  >
+                    {member.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                  </Button>
+                )}
+
+                {member.userId !== userId && canRemove(ownRole, member.role) && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="sm" variant="outline" className="text-destructive" disabled={busy}>
+                        Remove
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove {usernameOf(member.userId)}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          They lose access to the conversation. Every member's next message is
+                          encrypted with a new key that they never receive.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRemove(member)}>Remove</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+
+        {canInvite(ownRole) && invitable.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Invite</p>
+            <ScrollArea className="max-h-40">
+              <ul className="space-y-1 pr-3">
+                {invitable.map((u) => (
+                  <li key={u.id} className="flex items-center gap-2 rounded-md p-1 hover:bg-secondary/50">
+                    <span className="flex-1 min-w-0 truncate text-sm">{u.username}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      disabled={busy}
+                      onClick={() =>
+                        run(async () => {
+                          await inviteMember(conversation.id, u.id);
+                          await resealConversationMetadata(conversation.id, userId);
+                        }, 'Failed to invite member')
+                      }
+                      aria-label={`Invite ${u.username}`}
+                    >
+                      <UserPlus className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        )}
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" className="text-destructive" disabled={busy}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave group
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Leave {name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {ownRole === 'owner' && conversation.members.length > 1
+                  ? 'Ownership passes to the longest-standing admin, or member if there is no admin. '
+                  : ''}
+                You will no longer receive messages in this group.
+                {conversation.members.length === 1 && ' As the last member, leaving deletes the group.'}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => run(() => leaveConversation(conversation.id), 'Failed to leave group', onLeft)}
+              >
+                Leave
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
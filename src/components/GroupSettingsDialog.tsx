@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react';
+import { ImagePlus, Settings, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ConversationMetadata, updateConversationMetadata } from '@/lib/groups';
+
+// Avatars are scaled down so the encrypted metadata stays small
+const AVATAR_SIZE = 128;
+
+// Center-crop and scale an image file to a square JPEG data URL
+async function resizeAvatar(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const side = Math.min(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = AVATAR_SIZE;
+    canvas.height = AVATAR_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      AVATAR_SIZE,
+      AVATAR_SIZE
+    );
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function GroupSettingsDialog({
+  conversationId,
+  metadata,
+  userId,
+  onSaved,
+}: {
+  conversationId: string;
+  metadata: ConversationMetadata | null;
+  userId: string;
+  onSaved?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [topic, setTopic] = useState('');
+  const [avatar, setAvatar] = useState<string | undefined>();
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      setName(metadata?.name ?? '');
+      setTopic(metadata?.topic ?? '');
+      setAvatar(metadata?.avatar);
+    }
+  };
+
+  const handleAvatarSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setAvatar(await resizeAvatar(file));
+    } catch (err) {
+      console.error('Error reading avatar image:', err);
+      toast({
+        title: 'Error',
+        description: 'Could not read that image',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await updateConversationMetadata(
+        conversationId,
+        { name: name.trim(), topic: topic.trim() || undefined, avatar },
+        userId
+      );
+      setOpen(false);
+      onSaved?.();
+    } catch (err) {
+      console.error('Error saving group settings:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to save group settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Settings className="w-4 h-4 mr-2" />
+          Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Group settings</DialogTitle>
+            <DialogDescription>
+              The name, topic and picture are encrypted so only members can see them. The server
+              only stores an encrypted blob.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center gap-4">
+            <Avatar className="w-16 h-16">
+              {avatar && <AvatarImage src={avatar} alt="Group picture" />}
+              <AvatarFallback className="bg-gradient-primary text-white text-xl">
+                {(name.trim() || '?')[0].toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/gif,image/webp"
+              className="hidden"
+              onChange={handleAvatarSelected}
+            />
+            <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <ImagePlus className="w-4 h-4 mr-2" />
+              Choose picture
+            </Button>
+            {avatar && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => setAvatar(undefined)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="group-settings-name">Name</Label>
+            <Input id="group-settings-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="group-settings-topic">Topic</Label>
+            <Textarea
+              id="group-settings-topic"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder="What is this group about?"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={saving || !name.trim()} className="bg-gradient-primary">
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export function IdentityImportForm({ onImported }: { onImported?: () => void }) {
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const { importIdentity } = useAuth();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setError(null);
+    setImporting(true);
+    try {
+      await importIdentity(await file.text(), passphrase);
+      toast({
+        title: 'Identity imported',
+        description: 'Your encryption keys are now available on this device.',
+      });
+      setPassphrase('');
+      onImported?.();
+    } catch (err) {
+      console.error('Error importing identity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import identity');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="identity-file">Identity file</Label>
+        <Input
+          id="identity-file"
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="identity-file-passphrase">File passphrase</Label>
+        <Input
+          id="identity-file-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          required
+        />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-gradient-primary hover:opacity-90"
+        disabled={importing || !file}
+      >
+        {importing ? 'Importing...' : 'Import Identity'}
+      </Button>
+    </form>
+  );
+}
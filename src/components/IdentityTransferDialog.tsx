@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { ArrowLeftRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { IdentityImportForm } from '@/components/IdentityImportForm';
+import { useToast } from '@/hooks/use-toast';
+import { createIdentityFile } from '@/lib/identityFile';
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+function downloadFile(contents: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function IdentityTransferDialog({ userId }: { userId: string }) {
+  const [open, setOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases don't match");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const contents = await createIdentityFile(userId, passphrase);
+      downloadFile(contents, `encryptia-identity-${new Date().toISOString().slice(0, 10)}.json`);
+      toast({
+        title: 'Identity exported',
+        description: 'Keep the file and its passphrase safe; together they unlock your messages.',
+      });
+      reset();
+    } catch (err) {
+      console.error('Error exporting identity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export identity');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <ArrowLeftRight className="w-4 h-4 mr-2" />
+          Transfer
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move your identity</DialogTitle>
+          <DialogDescription>
+            Export your keys to an encrypted file and import it in another browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="mt-4">
+            <form onSubmit={handleExport} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-passphrase">File passphrase</Label>
+                <Input
+                  id="export-passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="export-confirm-passphrase">Confirm passphrase</Label>
+                <Input
+                  id="export-confirm-passphrase"
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  required
+                />
+                {error && <p className="text-sm text-destructive">{error}</p>}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-gradient-primary hover:opacity-90"
+                disabled={exporting}
+              >
+                {exporting ? 'Encrypting...' : 'Export Identity'}
+              </Button>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="import" className="mt-4">
+            <IdentityImportForm onImported={() => setOpen(false)} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
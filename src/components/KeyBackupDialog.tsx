@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { DatabaseBackup } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { createKeyBackup } from '@/lib/keyBackup';
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+export function KeyBackupDialog({ userId }: { userId: string }) {
+  const [open, setOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases don't match");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createKeyBackup(userId, passphrase);
+      toast({
+        title: 'Backup saved',
+        description: 'Use your recovery passphrase to restore your keys on another device.',
+      });
+      setOpen(false);
+      reset();
+    } catch (err) {
+      console.error('Error creating key backup:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to back up keys',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <DatabaseBackup className="w-4 h-4 mr-2" />
+          Backup
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Back up your keys</DialogTitle>
+            <DialogDescription>
+              Your keys are encrypted with a recovery passphrase before they leave this device.
+              We cannot reset it: without the passphrase the backup is useless.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="backup-passphrase">Recovery passphrase</Label>
+            <Input
+              id="backup-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="backup-confirm-passphrase">Confirm passphrase</Label>
+            <Input
+              id="backup-confirm-passphrase"
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              required
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" className="bg-gradient-primary hover:opacity-90" disabled={saving}>
+              {saving ? 'Encrypting...' : 'Save Backup'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
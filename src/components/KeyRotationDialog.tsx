@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export function KeyRotationDialog({ onRotated }: { onRotated?: () => void }) {
+  const [rotating, setRotating] = useState(false);
+  const { rotateIdentity } = useAuth();
+  const { toast } = useToast();
+
+  const handleRotate = async () => {
+    setRotating(true);
+    try {
+      await rotateIdentity();
+      onRotated?.();
+      toast({
+        title: 'Keys rotated',
+        description:
+          'New messages use your new key. Update your key backup and identity files, as they still hold the old key.',
+      });
+    } catch (err) {
+      console.error('Error rotating keys:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to rotate encryption keys',
+        variant: 'destructive',
+      });
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={rotating}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          {rotating ? 'Rotating...' : 'Rotate Keys'}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Rotate your identity key?</AlertDialogTitle>
+          <AlertDialogDescription>
+            New identity and signing keys replace your current ones. The old identity key stays on
+            this device so your message history remains readable. Your contacts will see that your key changed
+            and may need to verify you again.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleRotate}>Rotate Keys</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
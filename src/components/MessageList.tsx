@@ -0,0 +1,202 @@
+import {
+  forwardRef,
+  ReactNode,
+  Ref,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ArrowDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+// Older pages are requested once the user scrolls this close to the top
+const LOAD_OLDER_THRESHOLD = 200;
+// How far from the bottom still counts as reading the newest messages
+const STICK_TO_BOTTOM_THRESHOLD = 40;
+const HIGHLIGHT_DURATION = 2000;
+
+export interface MessageListHandle {
+  // Scroll a loaded item into view and highlight it; false if it is not loaded
+  scrollToKey: (key: string) => boolean;
+  scrollToBottom: () => void;
+}
+
+interface MessageListProps<T> {
+  // Oldest first
+  items: T[];
+  getKey: (item: T) => string;
+  // Highlighted after jumping to the item
+  renderItem: (item: T, state: { highlighted: boolean }) => ReactNode;
+  // Height of a typical message bubble, until the real one is measured
+  estimateSize?: number;
+  hasOlder?: boolean;
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  className?: string;
+}
+
+/**
+ * Windowed message history. Only the bubbles in and near the viewport are in the
+ * DOM; their heights are measured as they render. The list follows new messages
+ * while the user is at the bottom, asks for older pages near the top and keeps
+ * the same messages in view when those pages are prepended.
+ */
+function MessageListInner<T>(
+  {
+    items,
+    getKey,
+    renderItem,
+    estimateSize = 72,
+    hasOlder = false,
+    loadingOlder = false,
+    onLoadOlder,
+    className,
+  }: MessageListProps<T>,
+  ref: Ref<MessageListHandle>
+) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+  // First and last keys of the previous render, to tell prepended pages from new messages
+  const edgesRef = useRef<{ first?: string; last?: string }>({});
+  const [atBottom, setAtBottom] = useState(true);
+  const [highlightedKey, setHighlightedKey] = useState<string | null>(null);
+
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => viewportRef.current,
+    estimateSize: () => estimateSize,
+    getItemKey: (index) => getKey(items[index]),
+    overscan: 8,
+    gap: 16,
+  });
+
+  const scrollToBottom = useCallback(() => {
+    stickToBottomRef.current = true;
+    setAtBottom(true);
+    if (items.length > 0) virtualizer.scrollToIndex(items.length - 1, { align: 'end' });
+  }, [items.length, virtualizer]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToKey: (key) => {
+        const index = items.findIndex((item) => getKey(item) === key);
+        if (index === -1) return false;
+        stickToBottomRef.current = false;
+        virtualizer.scrollToIndex(index, { align: 'center' });
+        setHighlightedKey(key);
+        return true;
+      },
+      scrollToBottom,
+    }),
+    [items, getKey, virtualizer, scrollToBottom]
+  );
+
+  useEffect(() => {
+    if (!highlightedKey) return;
+    const timeout = setTimeout(() => setHighlightedKey(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [highlightedKey]);
+
+  const maybeLoadOlder = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !hasOlder || loadingOlder || items.length === 0) return;
+    if (viewport.scrollTop < LOAD_OLDER_THRESHOLD) onLoadOlder?.();
+  }, [hasOlder, loadingOlder, items.length, onLoadOlder]);
+
+  const handleScroll = () => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const bottom =
+      viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < STICK_TO_BOTTOM_THRESHOLD;
+    stickToBottomRef.current = bottom;
+    setAtBottom(bottom);
+    maybeLoadOlder();
+  };
+
+  // Keep the view still when older messages are prepended, and follow new ones at the bottom
+  useLayoutEffect(() => {
+    const previous = edgesRef.current;
+    const first = items.length > 0 ? getKey(items[0]) : undefined;
+    const last = items.length > 0 ? getKey(items[items.length - 1]) : undefined;
+    edgesRef.current = { first, last };
+    if (items.length === 0) {
+      stickToBottomRef.current = true;
+      return;
+    }
+
+    const viewport = viewportRef.current;
+    if (!previous.first) {
+      // A conversation was opened; start at its newest message
+      virtualizer.scrollToIndex(items.length - 1, { align: 'end' });
+      return;
+    }
+
+    if (first !== previous.first) {
+      const anchorIndex = items.findIndex((item) => getKey(item) === previous.first);
+      const anchorStart = anchorIndex > 0 ? virtualizer.measurementsCache[anchorIndex]?.start : undefined;
+      if (viewport && anchorStart !== undefined) {
+        virtualizer.scrollToOffset(viewport.scrollTop + anchorStart);
+      }
+    }
+
+    if (last !== previous.last && stickToBottomRef.current) {
+      virtualizer.scrollToIndex(items.length - 1, { align: 'end' });
+    }
+  }, [items, getKey, virtualizer]);
+
+  // A short first page may not fill the viewport, so there is nothing to scroll
+  useEffect(() => {
+    maybeLoadOlder();
+  }, [maybeLoadOlder]);
+
+  return (
+    <div className={`relative min-h-0 ${className ?? ''}`}>
+      <ScrollArea className="h-full p-4" viewportRef={viewportRef} onViewportScroll={handleScroll}>
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map((virtualItem) => {
+            const item = items[virtualItem.index];
+            return (
+              <div
+                key={virtualItem.key}
+                ref={virtualizer.measureElement}
+                data-index={virtualItem.index}
+                className="absolute left-0 top-0 w-full"
+                style={{ transform: `translateY(${virtualItem.start}px)` }}
+              >
+                {renderItem(item, { highlighted: highlightedKey === getKey(item) })}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      {loadingOlder && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 rounded-full bg-card border border-border px-3 py-1 text-xs text-muted-foreground shadow-sm">
+          Loading older messages...
+        </div>
+      )}
+
+      {!atBottom && (
+        <Button
+          size="icon"
+          variant="secondary"
+          className="absolute bottom-4 right-4 rounded-full shadow-md"
+          onClick={scrollToBottom}
+          aria-label="Jump to latest message"
+        >
+          <ArrowDown className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export const MessageList = forwardRef(MessageListInner) as <T>(
+  props: MessageListProps<T> & { ref?: Ref<MessageListHandle> }
+) => ReturnType<typeof MessageListInner>;
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { revokeIdentityKey } from '@/lib/revocation';
+
+const CONFIRMATION_WORD = 'REVOKE';
+
+export function RevokeKeyDialog({
+  publicKey,
+  signingPublicKey,
+  onRevoked,
+}: {
+  publicKey: string;
+  signingPublicKey: string | null;
+  onRevoked?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState(false);
+  const { user, hasSigningKey } = useAuth();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setReason('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const handleRevoke = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !hasSigningKey || !signingPublicKey || confirmation !== CONFIRMATION_WORD) return;
+
+    setError(null);
+    setRevoking(true);
+    try {
+      await revokeIdentityKey(user.id, publicKey, signingPublicKey, reason.trim() || 'Key compromised');
+      toast({
+        title: 'Key revoked',
+        description: 'Contacts will no longer encrypt to this key. Rotate your keys to receive messages again.',
+      });
+      setOpen(false);
+      reset();
+      onRevoked?.();
+    } catch (err) {
+      console.error('Error revoking key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke key');
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-destructive" disabled={!hasSigningKey || !signingPublicKey}>
+          <ShieldOff className="w-4 h-4 mr-2" />
+          Revoke Key
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report a compromised key</DialogTitle>
+          <DialogDescription>
+            Revoke your identity key if a device holding it may have been compromised. Your
+            signing key is revoked with it: contacts stop encrypting to you, and messages signed
+            with it from now on are flagged. This cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleRevoke} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="revocation-reason">Reason (visible to your contacts)</Label>
+            <Input
+              id="revocation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Laptop stolen"
+              maxLength={200}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="revocation-confirmation">
+              Type {CONFIRMATION_WORD} to confirm
+            </Label>
+            <Input
+              id="revocation-confirmation"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={revoking || confirmation !== CONFIRMATION_WORD}
+            >
+              {revoking ? 'Revoking...' : 'Revoke Key'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { Copy, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  computeSafetyNumber,
+  importPublicKey,
+  importSigningPublicKey,
+  KeyType,
+  SafetyNumberParty,
+} from '@/lib/crypto';
+import { clearContactVerification, isContactVerified, markContactVerified } from '@/lib/contacts';
+
+interface VerifiableProfile {
+  id: string;
+  username: string;
+  public_key: string;
+  key_type: string;
+  signing_public_key: string | null;
+}
+
+// Prefix of the QR code payload, so scanned codes are recognisable as ours
+const QR_PREFIX = 'encryptia-safety-number:';
+
+async function safetyNumberParty(profile: VerifiableProfile): Promise<SafetyNumberParty> {
+  return {
+    id: profile.id,
+    publicKey: await importPublicKey(profile.public_key, profile.key_type as KeyType),
+    signingPublicKey: profile.signing_public_key
+      ? await importSigningPublicKey(profile.signing_public_key)
+      : null,
+  };
+}
+
+// Display as twelve groups of five digits
+function formatSafetyNumber(safetyNumber: string): string[] {
+  return safetyNumber.match(/.{5}/g) ?? [];
+}
+
+export function VerificationDialog({
+  ownProfile,
+  contact,
+}: {
+  ownProfile: VerifiableProfile;
+  contact: VerifiableProfile;
+}) {
+  const [open, setOpen] = useState(false);
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [verified, setVerified] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setSafetyNumber(null);
+    setVerified(false);
+
+    (async () => {
+      const number = await computeSafetyNumber(
+        await safetyNumberParty(ownProfile),
+        await safetyNumberParty(contact)
+      );
+      const isVerified = await isContactVerified(ownProfile.id, contact.id, number);
+      if (!cancelled) {
+        setSafetyNumber(number);
+        setVerified(isVerified);
+      }
+    })().catch((err) => console.error('Error computing safety number:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ownProfile, contact]);
+
+  const reset = () => {
+    setPasted('');
+    setError(null);
+  };
+
+  const handleVerify = async () => {
+    if (!safetyNumber) return;
+    try {
+      await markContactVerified(ownProfile.id, contact.id, safetyNumber);
+      setVerified(true);
+      reset();
+      toast({
+        title: 'Contact verified',
+        description: `You will be warned if ${contact.username}'s keys change.`,
+      });
+    } catch (err) {
+      console.error('Error saving verification:', err);
+      setError('Failed to save verification');
+    }
+  };
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!safetyNumber) return;
+
+    // Accept the number with any spacing, or the text of a scanned QR code
+    const digits = pasted.trim().replace(QR_PREFIX, '').replace(/\D/g, '');
+    if (digits !== safetyNumber) {
+      setError("The codes don't match. Your conversation may be intercepted; don't verify.");
+      return;
+    }
+    await handleVerify();
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearContactVerification(ownProfile.id, contact.id);
+      setVerified(false);
+    } catch (err) {
+      console.error('Error clearing verification:', err);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!safetyNumber) return;
+    try {
+      await navigator.clipboard.writeText(formatSafetyNumber(safetyNumber).join(' '));
+      toast({ title: 'Safety number copied' });
+    } catch (err) {
+      console.error('Error copying safety number:', err);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant={verified ? 'secondary' : 'outline'} size="sm" className="gap-1">
+          {verified ? (
+            <ShieldCheck className="w-4 h-4 text-secure" />
+          ) : (
+            <ShieldQuestion className="w-4 h-4" />
+          )}
+          {verified ? 'Verified' : 'Verify'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Verify {contact.username}</DialogTitle>
+          <DialogDescription>
+            Compare this safety number with {contact.username} in person or over another channel.
+            If it matches on both screens, nobody has swapped your keys.
+          </DialogDescription>
+        </DialogHeader>
+
+        {safetyNumber ? (
+          <div className="space-y-4">
+            <div className="flex justify-center rounded-lg bg-white p-4">
+              <QRCodeSVG value={QR_PREFIX + safetyNumber} size={160} />
+            </div>
+
+            <div className="grid grid-cols-4 gap-2 font-mono text-center text-sm">
+              {formatSafetyNumber(safetyNumber).map((group, index) => (
+                <span key={index}>{group}</span>
+              ))}
+            </div>
+
+            <Button variant="ghost" size="sm" className="w-full" onClick={handleCopy}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy safety number
+            </Button>
+
+            <form onSubmit={handleCompare} className="space-y-2">
+              <Label htmlFor="pasted-safety-number">Paste {contact.username}'s safety number</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="pasted-safety-number"
+                  value={pasted}
+                  onChange={(e) => {
+                    setPasted(e.target.value);
+                    setError(null);
+                  }}
+                  placeholder="12345 67890 ..."
+                />
+                <Button type="submit" variant="outline" disabled={!pasted.trim()}>
+                  Compare
+                </Button>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </form>
+
+            {verified ? (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm flex items-center gap-1 text-secure">
+                  <ShieldCheck className="w-4 h-4" />
+                  Verified on this device
+                </p>
+                <Button variant="ghost" size="sm" onClick={handleClear}>
+                  Clear verification
+                </Button>
+              </div>
+            ) : (
+              <Button className="w-full bg-gradient-primary hover:opacity-90" onClick={handleVerify}>
+                Mark as verified
+              </Button>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Computing safety number...</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
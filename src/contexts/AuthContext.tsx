@@ -2,19 +2,27 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { 
-  generateRSAKeyPair, 
-  exportPublicKey, 
-  exportPrivateKey,
-  storePrivateKey,
-  retrievePrivateKey,
-  importPrivateKey
-} from '@/lib/crypto';
+import { KeyType } from '@/lib/crypto';
+import { cryptoWorker } from '@/lib/cryptoWorker';
+import { restoreKeyBackup } from '@/lib/keyBackup';
+import { importIdentityFile } from '@/lib/identityFile';
+import { publishPrekeys } from '@/lib/prekeys';
+import { LocalDevice, registerDevice } from '@/lib/devices';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
-  privateKey: CryptoKey | null;
+  // Type of the identity key loaded into the crypto worker; the private keys never leave it
+  keyType: KeyType | null;
+  hasSigningKey: boolean;
+  // This browser's registered device, once registration has finished
+  device: LocalDevice | null;
+  // null until the keys on this device have been checked
+  hasLocalKey: boolean | null;
+  upgradeIdentity: () => Promise<void>;
+  rotateIdentity: () => Promise<void>;
+  restoreIdentity: (passphrase: string) => Promise<void>;
+  importIdentity: (contents: string, passphrase: string) => Promise<void>;
   signUp: (email: string, password: string, username: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
@@ -26,7 +34,10 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [privateKey, setPrivateKey] = useState<CryptoKey | null>(null);
+  const [keyType, setKeyType] = useState<KeyType | null>(null);
+  const [hasSigningKey, setHasSigningKey] = useState(false);
+  const [device, setDevice] = useState<LocalDevice | null>(null);
+  const [hasLocalKey, setHasLocalKey] = useState<boolean | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
@@ -44,7 +55,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             loadPrivateKey(session.user.id);
           }, 0);
         } else if (event === 'SIGNED_OUT') {
-          setPrivateKey(null);
+          clearKeys();
         }
       }
     );
@@ -64,21 +75,56 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  const clearKeys = () => {
+    cryptoWorker.clearKeys().catch((error) => {
+      console.error('Failed to clear keys from the crypto worker:', error);
+    });
+    setKeyType(null);
+    setHasSigningKey(false);
+    setDevice(null);
+    setHasLocalKey(null);
+  };
+
   const loadPrivateKey = async (userId: string) => {
     try {
-      const storedKey = await retrievePrivateKey(userId);
-      if (storedKey) {
-        const key = await importPrivateKey(storedKey);
-        setPrivateKey(key);
+      // The worker also migrates keys stored by older versions as PKCS#8 strings
+      const loaded = await cryptoWorker.loadIdentity(userId);
+      setHasLocalKey(!!loaded.keyType);
+      setKeyType(loaded.keyType);
+      setHasSigningKey(loaded.hasSigningKey);
+      if (loaded.keyType) {
         console.log('Private key loaded successfully');
       } else {
         console.log('No private key found for user');
       }
+
+      let localDevice: LocalDevice | null = null;
+      try {
+        localDevice = await registerDevice(userId, loaded.hasSigningKey);
+        setDevice(localDevice);
+        if (localDevice.revoked) {
+          console.log('This device has been revoked and no longer receives messages');
+        }
+      } catch (error) {
+        console.error('Failed to register device:', error);
+      }
+
+      if (loaded.hasSigningKey) {
+        // Keep this device's prekey bundle published so peers can open forward-secret sessions
+        if (localDevice && !localDevice.revoked) {
+          publishPrekeys(localDevice.id, userId).catch((error) => {
+            console.error('Failed to publish prekeys:', error);
+          });
+        }
+      } else {
+        console.log('No signing key found for user; messages will be sent unsigned');
+      }
     } catch (error) {
       console.error('Error loading private key:', error);
+      setHasLocalKey((current) => current ?? false);
       toast({
         title: 'Encryption Error',
-        description: 'Failed to load encryption keys. You may need to sign up again.',
+        description: 'Failed to load encryption keys. You can restore them from a key backup.',
         variant: 'destructive',
       });
     } finally {
@@ -90,11 +136,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       setLoading(true);
       
-      // Generate RSA key pair
-      console.log('Generating RSA key pair...');
-      const keyPair = await generateRSAKeyPair();
-      const publicKeyPem = await exportPublicKey(keyPair.publicKey);
-      const privateKeyStr = await exportPrivateKey(keyPair.privateKey);
+      // Generate the X25519 identity key and Ed25519 signing key in the crypto worker,
+      // which holds the private keys until the account exists
+      const identity = await cryptoWorker.createIdentity();
 
       const redirectUrl = `${window.location.origin}/`;
       
@@ -106,17 +150,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           emailRedirectTo: redirectUrl,
           data: {
             username,
-            public_key: publicKeyPem,
+            public_key: identity.publicKey,
+            key_type: 'ec',
+            signing_public_key: identity.signingPublicKey,
           },
         },
       });
 
-      if (error) throw error;
+      if (error) {
+        await cryptoWorker.discardIdentity(identity.handle);
+        throw error;
+      }
 
       if (data.user) {
-        // Store private key in IndexedDB
-        await storePrivateKey(data.user.id, privateKeyStr);
+        // Store private keys in IndexedDB
+        await cryptoWorker.saveIdentity(identity.handle, data.user.id);
         console.log('Keys generated and stored successfully');
+
+        // Signed in straight away (no email confirmation): load the keys we just stored
+        if (data.session) {
+          await loadPrivateKey(data.user.id);
+        }
         
         toast({
           title: 'Account created!',
@@ -133,6 +187,71 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Add an X25519 identity for an RSA account. The RSA key stays on this device for
+  // older messages; like any rotation, this also replaces the signing key.
+  const upgradeIdentity = async () => {
+    if (!user) return;
+    await replaceIdentity(user.id, 'upgrade');
+  };
+
+  // Replace the identity key with a fresh X25519 key. The old private key is retired
+  // but kept on this device, so messages encrypted to it still decrypt; the old signing
+  // key is dropped, as earlier signatures verify against its published copy.
+  const rotateIdentity = async () => {
+    if (!user) return;
+    await replaceIdentity(user.id, 'rotate');
+  };
+
+  // The crypto worker stores the new keys first so a failed profile update never leaves
+  // us without them. A revoked signing key must not outlive its identity key, so each
+  // rotation also brings a new signing key; the rotation RPC publishes both new public
+  // keys and records the old ones in key_history and signing_key_history.
+  const replaceIdentity = async (userId: string, kind: 'rotate' | 'upgrade') => {
+    const replaced = await cryptoWorker.replaceIdentity(userId, kind);
+    if (!replaced) return;
+
+    const { error } = await supabase.rpc('rotate_identity_key', {
+      new_public_key: replaced.publicKey,
+      new_key_type: replaced.keyType,
+      new_signing_public_key: replaced.signingPublicKey,
+    });
+
+    if (error) {
+      await cryptoWorker.saveIdentity(replaced.handle, userId);
+      throw error;
+    }
+    await cryptoWorker.discardIdentity(replaced.handle);
+
+    // Peers verify this device's bundle against the new signing key, so re-sign and
+    // republish it before anything else; loading the keys below tries again on failure
+    const loaded = await cryptoWorker.loadIdentity(userId);
+    if (loaded.hasSigningKey && device && !device.revoked) {
+      try {
+        await publishPrekeys(device.id, userId);
+      } catch (error) {
+        console.error('Failed to republish prekeys after rotation:', error);
+      }
+    }
+
+    await loadPrivateKey(userId);
+  };
+
+  // Bring the identity keys onto this device from the passphrase-protected server backup
+  const restoreIdentity = async (passphrase: string) => {
+    if (!user) return;
+
+    await restoreKeyBackup(user.id, passphrase);
+    await loadPrivateKey(user.id);
+  };
+
+  // Replace this device's keys with those from an exported identity file
+  const importIdentity = async (contents: string, passphrase: string) => {
+    if (!user) return;
+
+    await importIdentityFile(user.id, contents, passphrase);
+    await loadPrivateKey(user.id);
+  };
+
   const signIn = async (email: string, password: string) => {
     try {
       setLoading(true);
@@ -161,7 +280,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       setLoading(true);
       await supabase.auth.signOut();
-      setPrivateKey(null);
+      clearKeys();
       
       toast({
         title: 'Signed out',
@@ -184,7 +303,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         user,
         session,
-        privateKey,
+        keyType,
+        hasSigningKey,
+        device,
+        hasLocalKey,
+        upgradeIdentity,
+        rotateIdentity,
+        restoreIdentity,
+        importIdentity,
         signUp,
         signIn,
         signOut,
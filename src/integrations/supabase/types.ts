@@ -14,63 +14,545 @@ export type Database = {
   }
   public: {
     Tables: {
+      conversation_members: {
+        Row: {
+          conversation_id: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_members_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          key_epoch: number
+          metadata: Json | null
+          metadata_updated_at: string | null
+          name: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_epoch?: number
+          metadata?: Json | null
+          metadata_updated_at?: string | null
+          name?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_epoch?: number
+          metadata?: Json | null
+          metadata_updated_at?: string | null
+          name?: string | null
+        }
+        Relationships: []
+      }
+      devices: {
+        Row: {
+          created_at: string | null
+          id: string
+          last_seen_at: string | null
+          name: string
+          public_key: string
+          revoked: boolean
+          signature: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id: string
+          last_seen_at?: string | null
+          name: string
+          public_key: string
+          revoked?: boolean
+          signature?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          last_seen_at?: string | null
+          name?: string
+          public_key?: string
+          revoked?: boolean
+          signature?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      key_backups: {
+        Row: {
+          ciphertext: string
+          created_at: string | null
+          iterations: number
+          iv: string
+          salt: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          ciphertext: string
+          created_at?: string | null
+          iterations: number
+          iv: string
+          salt: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          ciphertext?: string
+          created_at?: string | null
+          iterations?: number
+          iv?: string
+          salt?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      key_history: {
+        Row: {
+          id: string
+          key_type: string
+          public_key: string
+          retired_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          key_type: string
+          public_key: string
+          retired_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          key_type?: string
+          public_key?: string
+          retired_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      key_log: {
+        Row: {
+          created_at: string
+          key_type: string
+          leaf_hash: string
+          log_index: number
+          public_key: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          key_type: string
+          leaf_hash: string
+          log_index: number
+          public_key: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          key_type?: string
+          leaf_hash?: string
+          log_index?: number
+          public_key?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      key_log_heads: {
+        Row: {
+          created_at: string | null
+          root_hash: string
+          signature: string
+          signed_at: string
+          tree_size: number
+        }
+        Insert: {
+          created_at?: string | null
+          root_hash: string
+          signature: string
+          signed_at: string
+          tree_size: number
+        }
+        Update: {
+          created_at?: string | null
+          root_hash?: string
+          signature?: string
+          signed_at?: string
+          tree_size?: number
+        }
+        Relationships: []
+      }
+      key_log_nodes: {
+        Row: {
+          hash: string
+          level: number
+          node_index: number
+        }
+        Insert: {
+          hash: string
+          level: number
+          node_index: number
+        }
+        Update: {
+          hash?: string
+          level?: number
+          node_index?: number
+        }
+        Relationships: []
+      }
+      key_revocations: {
+        Row: {
+          id: string
+          key_type: string
+          public_key: string
+          revoked_at: string
+          signature: string
+          signing_public_key: string | null
+          statement: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          key_type: string
+          public_key: string
+          revoked_at?: string
+          signature: string
+          signing_public_key?: string | null
+          statement: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          key_type?: string
+          public_key?: string
+          revoked_at?: string
+          signature?: string
+          signing_public_key?: string | null
+          statement?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           ciphertext: string
+          conversation_id: string | null
           created_at: string | null
           encrypted_key: string
+          encrypted_keys: Json
+          envelope_version: number
           id: string
           iv: string
-          recipient_id: string
+          recipient_id: string | null
           sender_id: string
+          signature: string | null
         }
         Insert: {
           ciphertext: string
+          conversation_id?: string | null
           created_at?: string | null
           encrypted_key: string
+          encrypted_keys?: Json
+          envelope_version?: number
           id?: string
           iv: string
-          recipient_id: string
+          recipient_id?: string | null
           sender_id: string
+          signature?: string | null
         }
         Update: {
           ciphertext?: string
+          conversation_id?: string | null
           created_at?: string | null
           encrypted_key?: string
+          encrypted_keys?: Json
+          envelope_version?: number
           id?: string
           iv?: string
-          recipient_id?: string
+          recipient_id?: string | null
           sender_id?: string
+          signature?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      one_time_prekeys: {
+        Row: {
+          created_at: string | null
+          device_id: string
+          key_id: number
+          public_key: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          device_id: string
+          key_id: number
+          public_key: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          device_id?: string
+          key_id?: number
+          public_key?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "one_time_prekeys_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prekey_bundles: {
+        Row: {
+          device_id: string
+          identity_key: string
+          signed_prekey: string
+          signed_prekey_id: number
+          signed_prekey_signature: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          device_id: string
+          identity_key: string
+          signed_prekey: string
+          signed_prekey_id: number
+          signed_prekey_signature: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          device_id?: string
+          identity_key?: string
+          signed_prekey?: string
+          signed_prekey_id?: number
+          signed_prekey_signature?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prekey_bundles_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: true
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
           created_at: string | null
           id: string
+          key_revoked_at: string | null
+          key_type: string
           public_key: string
+          signing_key_published_at: string | null
+          signing_public_key: string | null
           username: string
         }
         Insert: {
           created_at?: string | null
           id: string
+          key_revoked_at?: string | null
+          key_type?: string
           public_key: string
+          signing_key_published_at?: string | null
+          signing_public_key?: string | null
           username: string
         }
         Update: {
           created_at?: string | null
           id?: string
+          key_revoked_at?: string | null
+          key_type?: string
           public_key?: string
+          signing_key_published_at?: string | null
+          signing_public_key?: string | null
           username?: string
         }
         Relationships: []
       }
+      sender_keys: {
+        Row: {
+          ciphertext: string
+          conversation_id: string
+          created_at: string
+          encrypted_keys: Json
+          envelope_version: number
+          epoch: number
+          id: string
+          iv: string
+          key_id: string
+          recipient_id: string
+          sender_id: string
+        }
+        Insert: {
+          ciphertext: string
+          conversation_id: string
+          created_at?: string
+          encrypted_keys: Json
+          envelope_version: number
+          epoch?: number
+          id: string
+          iv: string
+          key_id: string
+          recipient_id: string
+          sender_id: string
+        }
+        Update: {
+          ciphertext?: string
+          conversation_id?: string
+          created_at?: string
+          encrypted_keys?: Json
+          envelope_version?: number
+          epoch?: number
+          id?: string
+          iv?: string
+          key_id?: string
+          recipient_id?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sender_keys_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      signing_key_history: {
+        Row: {
+          id: string
+          public_key: string
+          published_at: string
+          retired_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          public_key: string
+          published_at: string
+          retired_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          public_key?: string
+          published_at?: string
+          retired_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_conversation_member: {
+        Args: { conversation: string; member: string }
+        Returns: undefined
+      }
+      claim_one_time_prekey: {
+        Args: { target_device: string }
+        Returns: {
+          key_id: number
+          public_key: string
+        }[]
+      }
+      conversation_joined_at: {
+        Args: { conversation: string; member: string }
+        Returns: string
+      }
+      conversation_role: {
+        Args: { conversation: string; member: string }
+        Returns: string
+      }
+      create_conversation: {
+        Args: {
+          conversation: string
+          encrypted_metadata: Json
+          member_ids: string[]
+        }
+        Returns: string
+      }
+      is_conversation_member: {
+        Args: { conversation: string; member: string }
+        Returns: boolean
+      }
+      leave_conversation: {
+        Args: { conversation: string }
+        Returns: undefined
+      }
+      remove_conversation_member: {
+        Args: { conversation: string; member: string }
+        Returns: undefined
+      }
+      revoke_identity_key: {
+        Args: { signature: string; statement: string }
+        Returns: string
+      }
+      rotate_identity_key: {
+        Args: {
+          new_key_type: string
+          new_public_key: string
+          new_signing_public_key: string
+        }
+        Returns: undefined
+      }
+      set_conversation_member_role: {
+        Args: { conversation: string; member: string; new_role: string }
+        Returns: undefined
+      }
+      update_conversation_metadata: {
+        Args: { conversation: string; encrypted_metadata: Json }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,189 @@
+/**
+ * Encrypted file attachments in Supabase Storage
+ * Files are encrypted in the crypto worker under a fresh key and uploaded to the
+ * private `attachments` bucket as opaque blobs, under <sender>/<recipient>/<message>/.
+ * The descriptor needed to fetch and decrypt a file travels inside the encrypted
+ * message body, so the server never learns its key, name or type.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { cryptoWorker } from './cryptoWorker';
+
+const ATTACHMENT_BUCKET = 'attachments';
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Everything a recipient needs to download and decrypt an attachment
+ */
+export interface AttachmentDescriptor {
+  path: string;
+  // Base64 raw AES-256 key the file is encrypted with
+  key: string;
+  // Base64 SHA-256 of the encrypted object
+  digest: string;
+  mimeType: string;
+  // Plaintext size in bytes
+  size: number;
+  filename: string;
+}
+
+/**
+ * Decrypted message body: text and any attachments
+ */
+export interface MessageBody {
+  text: string;
+  attachments: AttachmentDescriptor[];
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const BODY_FORMAT = 'encryptia-message';
+const BODY_VERSION = 1;
+
+/**
+ * Encode a message body as the plaintext to encrypt. Text-only messages stay
+ * plain strings, as they always were.
+ */
+export function encodeMessageBody(body: MessageBody): string {
+  if (body.attachments.length === 0) return body.text;
+  return JSON.stringify({
+    format: BODY_FORMAT,
+    version: BODY_VERSION,
+    text: body.text,
+    attachments: body.attachments,
+  });
+}
+
+function isAttachmentDescriptor(value: unknown): value is AttachmentDescriptor {
+  const descriptor = value as AttachmentDescriptor;
+  return (
+    typeof descriptor?.path === 'string' &&
+    typeof descriptor.key === 'string' &&
+    typeof descriptor.digest === 'string' &&
+    typeof descriptor.mimeType === 'string' &&
+    typeof descriptor.size === 'number' &&
+    typeof descriptor.filename === 'string'
+  );
+}
+
+/**
+ * Decode a decrypted message plaintext
+ */
+export function decodeMessageBody(plaintext: string): MessageBody {
+  try {
+    const parsed = JSON.parse(plaintext);
+    if (
+      parsed?.format === BODY_FORMAT &&
+      parsed.version === BODY_VERSION &&
+      Array.isArray(parsed.attachments)
+    ) {
+      return {
+        text: typeof parsed.text === 'string' ? parsed.text : '',
+        attachments: parsed.attachments.filter(isAttachmentDescriptor),
+      };
+    }
+  } catch {
+    // Not JSON: a plain text message
+  }
+  return { text: plaintext, attachments: [] };
+}
+
+// The encrypted object is bound to its path, so objects cannot be swapped on the server
+function pathAssociatedData(path: string): Uint8Array {
+  return new TextEncoder().encode(`attachment:${path}`);
+}
+
+/**
+ * Encrypt a file and upload it for a message
+ * @returns Descriptor to include in the message body
+ */
+export async function uploadAttachment(
+  file: File,
+  context: { messageId: string; senderId: string; recipientId: string }
+): Promise<AttachmentDescriptor> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+  }
+
+  const path = `${context.senderId}/${context.recipientId}/${context.messageId}/${globalThis.crypto.randomUUID()}`;
+  const { encrypted, key, digest } = await cryptoWorker.encryptFile(file, pathAssociatedData(path));
+
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).upload(path, encrypted, {
+    contentType: 'application/octet-stream',
+    upsert: false,
+  });
+  if (error) throw error;
+
+  return {
+    path,
+    key,
+    digest,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    filename: file.name,
+  };
+}
+
+/**
+ * Delete uploaded attachments, e.g. when sending their message failed
+ */
+export async function deleteAttachments(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+  if (error) throw error;
+}
+
+/**
+ * Download and decrypt an attachment
+ * @throws If the object was altered or replaced
+ */
+export async function downloadAttachment(attachment: AttachmentDescriptor): Promise<Blob> {
+  const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).download(attachment.path);
+  if (error) throw error;
+
+  return await cryptoWorker.decryptFile(
+    data,
+    attachment.key,
+    attachment.digest,
+    pathAssociatedData(attachment.path),
+    attachment.mimeType
+  );
+}
+
+// Object URLs of decrypted previews by attachment path. The message list is
+// virtualized, so bubbles remount while scrolling; they reuse the URL instead of
+// downloading and decrypting the attachment again.
+const previewUrls = new Map<string, Promise<string>>();
+
+/**
+ * Object URL of a decrypted attachment for previews, downloaded only once until
+ * clearAttachmentPreviews is called
+ */
+export function loadAttachmentPreview(attachment: AttachmentDescriptor): Promise<string> {
+  let url = previewUrls.get(attachment.path);
+  if (!url) {
+    const loading = downloadAttachment(attachment).then((blob) => URL.createObjectURL(blob));
+    // A failed preview is retried the next time it mounts
+    loading.catch(() => {
+      if (previewUrls.get(attachment.path) === loading) previewUrls.delete(attachment.path);
+    });
+    previewUrls.set(attachment.path, loading);
+    url = loading;
+  }
+  return url;
+}
+
+/**
+ * Revoke every cached preview, e.g. when the user switches conversations
+ */
+export function clearAttachmentPreviews(): void {
+  for (const url of previewUrls.values()) {
+    url.then((objectUrl) => URL.revokeObjectURL(objectUrl)).catch(() => undefined);
+  }
+  previewUrls.clear();
+}
@@ -0,0 +1,175 @@
+/**
+ * Local trust state for contacts, kept in IndexedDB and never sent to the server
+ */
+
+import { computeFingerprint, importPublicKey, importSigningPublicKey, KeyType } from './crypto';
+import { getRecord, putRecord } from './keyStore';
+
+/**
+ * Fingerprints of a contact's published keys
+ */
+export interface ContactKeys {
+  fingerprint: string;
+  signingFingerprint: string | null;
+}
+
+/**
+ * A change of a contact's keys away from the pinned ones
+ */
+export interface KeyChange {
+  detectedAt: string;
+  previous: ContactKeys;
+  current: ContactKeys;
+  acknowledged: boolean;
+}
+
+export interface ContactRecord {
+  id: string;
+  ownerId: string;
+  contactId: string;
+  // Keys seen on first contact (trust on first use), moved on once a change is recorded
+  pinned?: ContactKeys;
+  pinnedAt?: string;
+  keyChanges?: KeyChange[];
+  // Safety number the user confirmed; verification lapses when it changes
+  verifiedSafetyNumber?: string;
+  verifiedAt?: string;
+}
+
+function contactRecordId(ownerId: string, contactId: string): string {
+  return `${ownerId}:${contactId}`;
+}
+
+// Serialize read-modify-write updates per contact; profile lookups run concurrently
+const contactLocks = new Map<string, Promise<unknown>>();
+
+function withContactLock<T>(ownerId: string, contactId: string, task: () => Promise<T>): Promise<T> {
+  const lockId = contactRecordId(ownerId, contactId);
+  const previous = contactLocks.get(lockId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  contactLocks.set(lockId, next);
+  next
+    .finally(() => {
+      if (contactLocks.get(lockId) === next) contactLocks.delete(lockId);
+    })
+    .catch(() => undefined);
+  return next;
+}
+
+export async function getContact(ownerId: string, contactId: string): Promise<ContactRecord> {
+  const id = contactRecordId(ownerId, contactId);
+  return (await getRecord<ContactRecord>('contacts', id)) ?? { id, ownerId, contactId };
+}
+
+/**
+ * Whether the user verified this contact and the keys still match what was verified
+ */
+export async function isContactVerified(
+  ownerId: string,
+  contactId: string,
+  safetyNumber: string
+): Promise<boolean> {
+  const contact = await getContact(ownerId, contactId);
+  return contact.verifiedSafetyNumber === safetyNumber;
+}
+
+export async function markContactVerified(
+  ownerId: string,
+  contactId: string,
+  safetyNumber: string
+): Promise<void> {
+  await withContactLock(ownerId, contactId, async () => {
+    const contact = await getContact(ownerId, contactId);
+    await putRecord('contacts', {
+      ...contact,
+      verifiedSafetyNumber: safetyNumber,
+      verifiedAt: new Date().toISOString(),
+    });
+  });
+}
+
+export async function clearContactVerification(ownerId: string, contactId: string): Promise<void> {
+  await withContactLock(ownerId, contactId, async () => {
+    const { verifiedSafetyNumber, verifiedAt, ...contact } = await getContact(ownerId, contactId);
+    await putRecord('contacts', contact);
+  });
+}
+
+/**
+ * Fingerprints of the keys in a profile row
+ */
+export async function profileKeys(profile: {
+  public_key: string;
+  key_type: string;
+  signing_public_key: string | null;
+}): Promise<ContactKeys> {
+  return {
+    fingerprint: await computeFingerprint(
+      await importPublicKey(profile.public_key, profile.key_type as KeyType)
+    ),
+    signingFingerprint: profile.signing_public_key
+      ? await computeFingerprint(await importSigningPublicKey(profile.signing_public_key))
+      : null,
+  };
+}
+
+/**
+ * Compare a contact's current keys with the pinned ones. The first keys seen are
+ * pinned; a difference is recorded as an unacknowledged key change and the new
+ * keys are pinned, so each change is reported once.
+ * @returns The contact record, including all recorded key changes
+ */
+export async function checkPinnedKeys(
+  ownerId: string,
+  contactId: string,
+  keys: ContactKeys
+): Promise<ContactRecord> {
+  return withContactLock(ownerId, contactId, async () => {
+    const contact = await getContact(ownerId, contactId);
+    const now = new Date().toISOString();
+
+    if (!contact.pinned) {
+      const pinned = { ...contact, pinned: keys, pinnedAt: now };
+      await putRecord('contacts', pinned);
+      return pinned;
+    }
+
+    if (
+      contact.pinned.fingerprint === keys.fingerprint &&
+      contact.pinned.signingFingerprint === keys.signingFingerprint
+    ) {
+      return contact;
+    }
+
+    const changed: ContactRecord = {
+      ...contact,
+      pinned: keys,
+      pinnedAt: now,
+      keyChanges: [
+        ...(contact.keyChanges ?? []),
+        { detectedAt: now, previous: contact.pinned, current: keys, acknowledged: false },
+      ],
+    };
+    await putRecord('contacts', changed);
+    return changed;
+  });
+}
+
+export function hasUnacknowledgedKeyChange(contact: ContactRecord): boolean {
+  return (contact.keyChanges ?? []).some((change) => !change.acknowledged);
+}
+
+/**
+ * Accept a contact's new keys so messages can be sent to them again
+ */
+export async function acknowledgeKeyChanges(ownerId: string, contactId: string): Promise<ContactRecord> {
+  return withContactLock(ownerId, contactId, async () => {
+    const contact = await getContact(ownerId, contactId);
+    const acknowledged = {
+      ...contact,
+      keyChanges: (contact.keyChanges ?? []).map((change) => ({ ...change, acknowledged: true })),
+    };
+    await putRecord('contacts', acknowledged);
+    return acknowledged;
+  });
+}
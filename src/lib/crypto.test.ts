@@ -0,0 +1,508 @@
+import 'fake-indexeddb/auto';
+import { createHash } from 'node:crypto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  computeKeyId,
+  decodeEnvelope,
+  decryptFile,
+  decryptMessage,
+  decryptStream,
+  EncryptedMessage,
+  encodeEnvelope,
+  encryptedStreamSize,
+  encryptFile,
+  encryptMessage,
+  encryptStream,
+  exportPrivateKey,
+  exportPublicKey,
+  generateContentKey,
+  generateECKeyPair,
+  generateRSAKeyPair,
+  generateSigningKeyPair,
+  hkdf,
+  identityPrivateKeys,
+  importPrivateKey,
+  importPublicKey,
+  keyWrapAlgorithm,
+  MAX_STREAM_CHUNK_SIZE,
+  paddedLength,
+  PaddingPolicy,
+  retrievePrivateKey,
+  retrieveSigningKey,
+  storePrivateKey,
+  storeSigningKey,
+} from './crypto';
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+const hex = (buffer: ArrayBuffer) => Buffer.from(buffer).toString('hex');
+
+// Flip the lowest bit of one byte of a base64 value
+function flipBit(base64: string, index = 0): string {
+  const data = new Uint8Array(base64ToArrayBuffer(base64));
+  data[index] ^= 1;
+  return arrayBufferToBase64(data.buffer);
+}
+
+describe('base64 helpers', () => {
+  it('matches the RFC 4648 test vectors', () => {
+    const vectors: [string, string][] = [
+      ['', ''],
+      ['f', 'Zg=='],
+      ['fo', 'Zm8='],
+      ['foo', 'Zm9v'],
+      ['foob', 'Zm9vYg=='],
+      ['fooba', 'Zm9vYmE='],
+      ['foobar', 'Zm9vYmFy'],
+    ];
+    for (const [plain, encoded] of vectors) {
+      expect(arrayBufferToBase64(new TextEncoder().encode(plain).buffer)).toBe(encoded);
+      expect(new TextDecoder().decode(base64ToArrayBuffer(encoded))).toBe(plain);
+    }
+  });
+
+  it('round-trips every byte value', () => {
+    const all = new Uint8Array(256).map((_, i) => i);
+    expect(new Uint8Array(base64ToArrayBuffer(arrayBufferToBase64(all.buffer)))).toEqual(all);
+  });
+
+  it('keeps leading and trailing zero and 0xff bytes', () => {
+    for (const buffer of [bytes(0), bytes(0, 0, 0), bytes(0xff), bytes(0, 0xff, 0), bytes(0xff, 0xff, 0xff, 0)]) {
+      expect(hex(base64ToArrayBuffer(arrayBufferToBase64(buffer)))).toBe(hex(buffer));
+    }
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => base64ToArrayBuffer('not base64!')).toThrow();
+  });
+});
+
+describe('hkdf', () => {
+  it('matches RFC 5869 test case 3', async () => {
+    const ikm = new Uint8Array(22).fill(0x0b);
+    const okm = await hkdf(ikm, new Uint8Array(), '', 42);
+    expect(hex(okm)).toBe(
+      '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8'
+    );
+  });
+});
+
+describe('padding', () => {
+  it('rounds lengths up to Padmé sizes above the minimum', () => {
+    const policy: PaddingPolicy = { scheme: 'padme', minimumSize: 64 };
+    expect(paddedLength(1, policy)).toBe(64);
+    expect(paddedLength(100, policy)).toBe(104);
+    expect(paddedLength(1000, policy)).toBe(1024);
+    expect(paddedLength(5001, policy)).toBe(5120);
+  });
+
+  it('rounds lengths up to buckets, then multiples of the largest', () => {
+    const policy: PaddingPolicy = { scheme: 'buckets', sizes: [1024, 256] };
+    expect(paddedLength(1, policy)).toBe(256);
+    expect(paddedLength(257, policy)).toBe(1024);
+    expect(paddedLength(1025, policy)).toBe(2048);
+  });
+});
+
+describe('key import and export', () => {
+  let rsa: CryptoKeyPair;
+  let ec: CryptoKeyPair;
+
+  beforeAll(async () => {
+    rsa = await generateRSAKeyPair(true);
+    ec = await generateECKeyPair(true);
+  });
+
+  it('round-trips PEM public keys', async () => {
+    for (const [keyPair, keyType] of [
+      [rsa, 'rsa'],
+      [ec, 'ec'],
+    ] as const) {
+      const pem = await exportPublicKey(keyPair.publicKey);
+      expect(pem).toMatch(/^-----BEGIN PUBLIC KEY-----\n[A-Za-z0-9+/=]+\n-----END PUBLIC KEY-----$/);
+
+      const imported = await importPublicKey(pem, keyType);
+      expect(imported.algorithm.name).toBe(keyPair.publicKey.algorithm.name);
+      expect(await exportPublicKey(imported)).toBe(pem);
+    }
+  });
+
+  it('imports PKCS#8 private keys as non-extractable keys', async () => {
+    const imported = await importPrivateKey(await exportPrivateKey(ec.privateKey), 'ec');
+    expect(imported.extractable).toBe(false);
+    expect(keyWrapAlgorithm(imported)).toBe('X25519-HKDF-SHA256');
+    await expect(exportPrivateKey(imported)).rejects.toThrow();
+  });
+
+  it('derives key ids from the SHA-256 of the SPKI', async () => {
+    const spki = base64ToArrayBuffer((await exportPublicKey(ec.publicKey)).split('\n')[1]);
+    const expected = createHash('sha256').update(Buffer.from(spki)).digest('hex').slice(0, 32);
+    expect(await computeKeyId(ec.publicKey)).toBe(expected);
+  });
+});
+
+describe('encryptMessage and decryptMessage', () => {
+  const context = { messageId: 'message-1', senderId: 'alice', recipientId: 'bob' };
+  let alice: CryptoKeyPair;
+  let bob: CryptoKeyPair;
+  let bobRsa: CryptoKeyPair;
+  let mallory: CryptoKeyPair;
+
+  beforeAll(async () => {
+    [alice, bob, bobRsa, mallory] = await Promise.all([
+      generateECKeyPair(),
+      generateECKeyPair(),
+      generateRSAKeyPair(),
+      generateECKeyPair(),
+    ]);
+  });
+
+  async function encryptFor(message: string, recipientKey: CryptoKey = bob.publicKey): Promise<EncryptedMessage> {
+    const result = await encryptMessage(message, context, [
+      { id: 'bob', publicKey: recipientKey },
+      { id: 'alice', publicKey: alice.publicKey },
+    ]);
+    return {
+      id: context.messageId,
+      senderId: context.senderId,
+      recipientId: context.recipientId,
+      envelopeVersion: result.envelopeVersion,
+      ciphertext: result.ciphertext,
+      iv: result.iv,
+      encryptedKey: result.encryptedKeys.bob,
+      encryptedKeys: result.encryptedKeys,
+    };
+  }
+
+  const asBob = (message: EncryptedMessage, privateKey: CryptoKey = bob.privateKey) =>
+    decryptMessage(message, 'bob', [{ privateKey }]);
+
+  it.each([
+    ['plain text', 'Hello, Bob!'],
+    ['an empty string', ''],
+    ['unicode', 'Grüße 👋 — 你好, мир'],
+    ['a long message', 'x'.repeat(10000)],
+  ])('round-trips %s', async (_name, message) => {
+    const encrypted = await encryptFor(message);
+    expect(await asBob(encrypted)).toBe(message);
+    expect(await decryptMessage(encrypted, 'alice', [{ privateKey: alice.privateKey }])).toBe(message);
+  });
+
+  it('round-trips through RSA-OAEP key wrapping', async () => {
+    const encrypted = await encryptFor('Hello over RSA', bobRsa.publicKey);
+    expect(decodeEnvelope(encrypted.ciphertext).header.wrapAlgorithms?.bob).toBe('RSA-OAEP-SHA256');
+    expect(await asBob(encrypted, bobRsa.privateKey)).toBe('Hello over RSA');
+  });
+
+  it('uses a fresh IV and content key per message', async () => {
+    const first = await encryptFor('same');
+    const second = await encryptFor('same');
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(first.encryptedKey).not.toBe(second.encryptedKey);
+  });
+
+  it('pads ciphertexts so short messages have the same length', async () => {
+    const short = decodeEnvelope((await encryptFor('a')).ciphertext);
+    const longer = decodeEnvelope((await encryptFor('a'.repeat(40))).ciphertext);
+    expect(short.header.padding).toBe('iso7816-4');
+    expect(short.ciphertext.length).toBe(longer.ciphertext.length);
+  });
+
+  it('returns null when the message has no copy for the user', async () => {
+    const encrypted = await encryptFor('not for carol');
+    expect(await decryptMessage(encrypted, 'carol', [{ privateKey: mallory.privateKey }])).toBeNull();
+  });
+
+  it('fails with the wrong private key', async () => {
+    const encrypted = await encryptFor('secret');
+    await expect(asBob(encrypted, mallory.privateKey)).rejects.toThrow();
+  });
+
+  it('fails without a private key of the wrapping algorithm', async () => {
+    const encrypted = await encryptFor('secret');
+    await expect(asBob(encrypted, bobRsa.privateKey)).rejects.toThrow(/No X25519-HKDF-SHA256 private key/);
+  });
+
+  it('detects a tampered ciphertext', async () => {
+    const encrypted = await encryptFor('secret');
+    const envelope = decodeEnvelope(encrypted.ciphertext);
+    const ciphertext = encodeEnvelope({ ...envelope, ciphertext: flipBit(envelope.ciphertext, 3) });
+    await expect(asBob({ ...encrypted, ciphertext })).rejects.toThrow();
+  });
+
+  it('detects a tampered IV', async () => {
+    const encrypted = await encryptFor('secret');
+    await expect(asBob({ ...encrypted, iv: flipBit(encrypted.iv) })).rejects.toThrow();
+  });
+
+  it('detects a tampered wrapped key', async () => {
+    const encrypted = await encryptFor('secret');
+    // Past the 32-byte ephemeral public key, into the AES-GCM wrapped key
+    const encryptedKey = flipBit(encrypted.encryptedKey, 40);
+    await expect(
+      asBob({ ...encrypted, encryptedKey, encryptedKeys: { ...encrypted.encryptedKeys, bob: encryptedKey } })
+    ).rejects.toThrow();
+  });
+
+  it('detects a tampered header', async () => {
+    const encrypted = await encryptFor('secret');
+    const envelope = decodeEnvelope(encrypted.ciphertext);
+    const ciphertext = encodeEnvelope({
+      ...envelope,
+      header: { ...envelope.header, suite: 'RSA-OAEP-SHA256/AES-256-GCM' },
+    });
+    await expect(asBob({ ...encrypted, ciphertext })).rejects.toThrow();
+  });
+
+  it('rejects an envelope moved to another message', async () => {
+    const encrypted = await encryptFor('secret');
+    await expect(asBob({ ...encrypted, id: 'message-2' })).rejects.toThrow();
+  });
+
+  it('encrypts to every member of a conversation', async () => {
+    const groupContext = { ...context, recipientId: 'group-1' };
+    const result = await encryptMessage('{"name":"Team"}', groupContext, [
+      { id: 'alice', publicKey: alice.publicKey },
+      { id: 'bob', publicKey: bobRsa.publicKey },
+      { id: 'carol', publicKey: mallory.publicKey },
+    ]);
+    const encrypted: EncryptedMessage = {
+      id: context.messageId,
+      senderId: context.senderId,
+      recipientId: 'group-1',
+      envelopeVersion: result.envelopeVersion,
+      ciphertext: result.ciphertext,
+      iv: result.iv,
+      encryptedKey: '',
+      encryptedKeys: result.encryptedKeys,
+    };
+
+    expect(decodeEnvelope(encrypted.ciphertext).header.suite).toBe('X25519-HKDF-SHA256/AES-256-GCM');
+    expect(await decryptMessage(encrypted, 'alice', [{ privateKey: alice.privateKey }])).toBe('{"name":"Team"}');
+    expect(await asBob(encrypted, bobRsa.privateKey)).toBe('{"name":"Team"}');
+    expect(await decryptMessage(encrypted, 'carol', [{ privateKey: mallory.privateKey }])).toBe('{"name":"Team"}');
+    await expect(decryptMessage({ ...encrypted, recipientId: 'group-2' }, 'bob', [{ privateKey: bobRsa.privateKey }]))
+      .rejects.toThrow();
+  });
+
+  it('decrypts legacy version 0 messages', async () => {
+    const contentKey = globalThis.crypto.getRandomValues(new Uint8Array(32));
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+    const aesKey = await globalThis.crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+    const ciphertext = await globalThis.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      aesKey,
+      new TextEncoder().encode('from before envelopes')
+    );
+    const encryptedKey = await globalThis.crypto.subtle.encrypt(
+      { name: 'RSA-OAEP' },
+      bobRsa.publicKey,
+      contentKey
+    );
+
+    const legacy: EncryptedMessage = {
+      id: 'legacy',
+      senderId: 'alice',
+      recipientId: 'bob',
+      envelopeVersion: 0,
+      ciphertext: arrayBufferToBase64(ciphertext),
+      iv: arrayBufferToBase64(iv.buffer),
+      encryptedKey: arrayBufferToBase64(encryptedKey),
+      encryptedKeys: null,
+    };
+    expect(await asBob(legacy, bobRsa.privateKey)).toBe('from before envelopes');
+  });
+});
+
+describe('streaming encryption', () => {
+  const chunkSize = 16;
+  const contentKey = generateContentKey();
+
+  const payload = (length: number) => new Uint8Array(length).map((_, i) => (i * 7) % 256);
+  const collect = async (stream: ReadableStream<Uint8Array>) =>
+    new Uint8Array(await new Response(stream).arrayBuffer());
+  const encrypt = (data: Uint8Array, associatedData?: Uint8Array) =>
+    collect(encryptStream(new Blob([data]), contentKey, { chunkSize, associatedData }));
+  const decrypt = (data: Uint8Array, associatedData?: Uint8Array) =>
+    collect(decryptStream(new Blob([data]), contentKey, { associatedData }));
+
+  // Header, then ciphertext chunks of chunkSize plus the 16-byte tag
+  const header = (encrypted: Uint8Array) => encrypted.subarray(0, 12);
+  const chunk = (encrypted: Uint8Array, index: number) =>
+    encrypted.subarray(12 + index * (chunkSize + 16), 12 + (index + 1) * (chunkSize + 16));
+  const join = (...parts: Uint8Array[]) => new Uint8Array(parts.flatMap((part) => [...part]));
+
+  it.each([0, 1, chunkSize - 1, chunkSize, chunkSize + 1, 3 * chunkSize + 5])(
+    'round-trips %i bytes',
+    async (length) => {
+      const encrypted = await encrypt(payload(length));
+      expect(encrypted.length).toBe(encryptedStreamSize(length, chunkSize));
+      expect(await decrypt(encrypted)).toEqual(payload(length));
+    }
+  );
+
+  it('reads input streams regardless of how they are split', async () => {
+    const data = payload(100);
+    const input = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const [start, end] of [[0, 1], [1, 40], [40, 41], [41, 100]]) {
+          controller.enqueue(data.slice(start, end));
+        }
+        controller.close();
+      },
+    });
+    const encrypted = await collect(encryptStream(input, contentKey, { chunkSize }));
+    expect(await decrypt(encrypted)).toEqual(data);
+  });
+
+  it('round-trips with the default chunk size', async () => {
+    const data = payload(200000);
+    const encrypted = await collect(encryptStream(new Blob([data]), contentKey));
+    expect(await collect(decryptStream(new Blob([encrypted]), contentKey))).toEqual(data);
+  });
+
+  it('detects a tampered chunk', async () => {
+    const encrypted = await encrypt(payload(40));
+    encrypted[12 + chunkSize + 20] ^= 1;
+    await expect(decrypt(encrypted)).rejects.toThrow(/chunk 1 failed authentication/);
+  });
+
+  it('detects a tampered header', async () => {
+    const encrypted = await encrypt(payload(40));
+    encrypted[8] ^= 1;
+    await expect(decrypt(encrypted)).rejects.toThrow();
+  });
+
+  it('detects truncation at a chunk boundary', async () => {
+    const encrypted = await encrypt(payload(3 * chunkSize + 5));
+    await expect(decrypt(join(header(encrypted), chunk(encrypted, 0), chunk(encrypted, 1)))).rejects.toThrow();
+  });
+
+  it('detects a missing final chunk of a chunk-aligned payload', async () => {
+    const encrypted = await encrypt(payload(2 * chunkSize));
+    await expect(decrypt(encrypted.subarray(0, encrypted.length - 16))).rejects.toThrow(/truncated/);
+  });
+
+  it('detects reordered chunks', async () => {
+    const encrypted = await encrypt(payload(3 * chunkSize + 5));
+    const reordered = join(
+      header(encrypted),
+      chunk(encrypted, 1),
+      chunk(encrypted, 0),
+      encrypted.subarray(12 + 2 * (chunkSize + 16))
+    );
+    await expect(decrypt(reordered)).rejects.toThrow(/chunk 0 failed authentication/);
+  });
+
+  it('binds the stream to its associated data', async () => {
+    const encoder = new TextEncoder();
+    const encrypted = await encrypt(payload(40), encoder.encode('message-1'));
+    expect(await decrypt(encrypted, encoder.encode('message-1'))).toEqual(payload(40));
+    await expect(decrypt(encrypted, encoder.encode('message-2'))).rejects.toThrow();
+  });
+
+  it('fails with the wrong key', async () => {
+    const encrypted = await encrypt(payload(40));
+    await expect(
+      collect(decryptStream(new Blob([encrypted]), generateContentKey()))
+    ).rejects.toThrow();
+  });
+
+  it('rejects an oversized chunk size before reading any chunk', async () => {
+    const encrypted = await encrypt(payload(40));
+    new DataView(encrypted.buffer, encrypted.byteOffset).setUint32(1, 0xffffffff);
+    await expect(decrypt(encrypted)).rejects.toThrow(/Invalid stream chunk size/);
+    expect(() =>
+      encryptStream(new Blob([payload(40)]), contentKey, { chunkSize: MAX_STREAM_CHUNK_SIZE + 1 })
+    ).toThrow(/Invalid stream chunk size/);
+  });
+});
+
+describe('file encryption', () => {
+  const path = new TextEncoder().encode('attachment:alice/bob/message-1/file-1');
+  const file = new Blob([new Uint8Array(70000).fill(0x2a)], { type: 'image/png' });
+
+  it('round-trips a file with its type', async () => {
+    const { encrypted, key, digest } = await encryptFile(file, path);
+    expect(encrypted.size).toBe(encryptedStreamSize(file.size));
+
+    const decrypted = await decryptFile(encrypted, key, digest, path, 'image/png');
+    expect(decrypted.type).toBe('image/png');
+    expect(new Uint8Array(await decrypted.arrayBuffer())).toEqual(new Uint8Array(await file.arrayBuffer()));
+  });
+
+  it('uses a fresh key per file', async () => {
+    const first = await encryptFile(file, path);
+    const second = await encryptFile(file, path);
+    expect(first.key).not.toBe(second.key);
+    expect(first.digest).not.toBe(second.digest);
+  });
+
+  it('rejects a file that does not match its digest', async () => {
+    const first = await encryptFile(file, path);
+    const second = await encryptFile(file, path);
+    await expect(decryptFile(second.encrypted, first.key, first.digest, path)).rejects.toThrow(/digest/);
+  });
+
+  it('rejects a file moved to another path', async () => {
+    const { encrypted, key, digest } = await encryptFile(file, path);
+    const otherPath = new TextEncoder().encode('attachment:alice/bob/message-2/file-1');
+    await expect(decryptFile(encrypted, key, digest, otherPath)).rejects.toThrow();
+  });
+});
+
+describe('key storage', () => {
+  it('stores and retrieves identity keys', async () => {
+    const current = await generateECKeyPair();
+    const legacy = await generateRSAKeyPair();
+    await storePrivateKey('user-1', {
+      privateKey: current.privateKey,
+      keyType: 'ec',
+      keyId: 'current',
+      legacyPrivateKey: legacy.privateKey,
+      legacyKeyId: 'legacy',
+    });
+
+    const stored = await retrievePrivateKey('user-1');
+    expect(stored?.keyType).toBe('ec');
+    expect(stored?.privateKey).toBeInstanceOf(CryptoKey);
+    expect(stored?.privateKey.extractable).toBe(false);
+    expect(identityPrivateKeys(stored!).map((key) => key.keyId)).toEqual(['current', 'legacy']);
+  });
+
+  it('keeps the stored keys usable', async () => {
+    const keyPair = await generateECKeyPair();
+    await storePrivateKey('user-2', { privateKey: keyPair.privateKey, keyType: 'ec' });
+    const stored = await retrievePrivateKey('user-2');
+
+    const result = await encryptMessage(
+      'stored',
+      { messageId: 'm', senderId: 'user-3', recipientId: 'user-2' },
+      [{ id: 'user-2', publicKey: keyPair.publicKey }]
+    );
+    const message: EncryptedMessage = {
+      id: 'm',
+      senderId: 'user-3',
+      recipientId: 'user-2',
+      envelopeVersion: result.envelopeVersion,
+      ciphertext: result.ciphertext,
+      iv: result.iv,
+      encryptedKey: result.encryptedKeys['user-2'],
+      encryptedKeys: result.encryptedKeys,
+    };
+    expect(await decryptMessage(message, 'user-2', identityPrivateKeys(stored!))).toBe('stored');
+  });
+
+  it('stores and retrieves signing keys', async () => {
+    const signing = await generateSigningKeyPair();
+    await storeSigningKey('user-1', signing.privateKey);
+    expect((await retrieveSigningKey('user-1'))?.algorithm.name).toBe(signing.privateKey.algorithm.name);
+  });
+
+  it('returns null for users without stored keys', async () => {
+    expect(await retrievePrivateKey('nobody')).toBeNull();
+    expect(await retrieveSigningKey('nobody')).toBeNull();
+  });
+});
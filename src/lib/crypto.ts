@@ -1,16 +1,19 @@
 /**
  * Cryptography utilities for end-to-end encryption
- * Uses Web Crypto API for RSA-OAEP and AES-GCM
+ * Uses Web Crypto API for RSA-OAEP or X25519 key wrapping, AES-GCM and ECDSA or Ed25519 signatures
  */
 
+import { getRecord, putRecord } from './keyStore';
+
 // Convert ArrayBuffer to Base64 string
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  // Build the binary string in slices; one character per byte is slow for large buffers
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+    parts.push(String.fromCharCode(...bytes.subarray(i, i + 0x8000)));
   }
-  return btoa(binary);
+  return btoa(parts.join(''));
 }
 
 // Convert Base64 string to ArrayBuffer
@@ -23,42 +26,82 @@ export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
+/**
+ * Identity key types:
+ * rsa - RSA-OAEP 4096-bit encryption key (accounts created before EC identities)
+ * ec  - X25519 key agreement key; message keys are wrapped via ephemeral-static ECDH
+ */
+export type KeyType = 'rsa' | 'ec';
+
 /**
  * Generate RSA key pair (4096-bit) for asymmetric encryption
+ * @param extractable - Allow exporting the private key
  */
-export async function generateRSAKeyPair(): Promise<CryptoKeyPair> {
-  return await window.crypto.subtle.generateKey(
+export async function generateRSAKeyPair(extractable = false): Promise<CryptoKeyPair> {
+  return await globalThis.crypto.subtle.generateKey(
     {
       name: 'RSA-OAEP',
       modulusLength: 4096,
       publicExponent: new Uint8Array([1, 0, 1]),
       hash: 'SHA-256',
     },
-    true, // extractable
+    extractable, // public keys are always exportable
     ['encrypt', 'decrypt']
   );
 }
 
 /**
- * Export RSA public key to PEM format string
+ * Generate X25519 key pair for key agreement (EC identities)
+ * @param extractable - Allow exporting the private key
+ */
+export async function generateECKeyPair(extractable = false): Promise<CryptoKeyPair> {
+  return (await globalThis.crypto.subtle.generateKey(
+    {
+      name: 'X25519',
+    },
+    extractable, // public keys are always exportable
+    ['deriveBits']
+  )) as CryptoKeyPair;
+}
+
+/**
+ * Export public key (RSA, X25519, ECDSA or Ed25519) to PEM format string
  */
 export async function exportPublicKey(key: CryptoKey): Promise<string> {
-  const exported = await window.crypto.subtle.exportKey('spki', key);
+  const exported = await globalThis.crypto.subtle.exportKey('spki', key);
   const exportedAsBase64 = arrayBufferToBase64(exported);
   return `-----BEGIN PUBLIC KEY-----\n${exportedAsBase64}\n-----END PUBLIC KEY-----`;
 }
 
-/**
- * Import RSA public key from PEM format string
- */
-export async function importPublicKey(pem: string): Promise<CryptoKey> {
+function pemToArrayBuffer(pem: string): ArrayBuffer {
   const pemContents = pem
     .replace('-----BEGIN PUBLIC KEY-----', '')
     .replace('-----END PUBLIC KEY-----', '')
     .replace(/\n/g, '');
-  const binaryKey = base64ToArrayBuffer(pemContents);
-  
-  return await window.crypto.subtle.importKey(
+  return base64ToArrayBuffer(pemContents);
+}
+
+/**
+ * Import encryption public key from PEM format string
+ * @param pem - SPKI public key in PEM format
+ * @param keyType - Key type recorded on the owner's profile
+ */
+export async function importPublicKey(pem: string, keyType: KeyType = 'rsa'): Promise<CryptoKey> {
+  const binaryKey = pemToArrayBuffer(pem);
+
+  if (keyType === 'ec') {
+    return await globalThis.crypto.subtle.importKey(
+      'spki',
+      binaryKey,
+      {
+        name: 'X25519',
+      },
+      true,
+      []
+    );
+  }
+
+  return await globalThis.crypto.subtle.importKey(
     'spki',
     binaryKey,
     {
@@ -71,116 +114,590 @@ export async function importPublicKey(pem: string): Promise<CryptoKey> {
 }
 
 /**
- * Export RSA private key to store in IndexedDB
+ * Export an extractable private key as base64 PKCS#8
+ * Stored identity keys are non-extractable and cannot be exported
  */
 export async function exportPrivateKey(key: CryptoKey): Promise<string> {
-  const exported = await window.crypto.subtle.exportKey('pkcs8', key);
+  const exported = await globalThis.crypto.subtle.exportKey('pkcs8', key);
   return arrayBufferToBase64(exported);
 }
 
 /**
- * Import RSA private key from storage
+ * Import encryption private key from storage
+ * @param keyData - Base64 PKCS#8 private key
+ * @param keyType - Type of the stored key
  */
-export async function importPrivateKey(keyData: string): Promise<CryptoKey> {
+export async function importPrivateKey(keyData: string, keyType: KeyType = 'rsa'): Promise<CryptoKey> {
   const binaryKey = base64ToArrayBuffer(keyData);
-  
-  return await window.crypto.subtle.importKey(
+
+  if (keyType === 'ec') {
+    return await globalThis.crypto.subtle.importKey(
+      'pkcs8',
+      binaryKey,
+      {
+        name: 'X25519',
+      },
+      false,
+      ['deriveBits']
+    );
+  }
+
+  return await globalThis.crypto.subtle.importKey(
     'pkcs8',
     binaryKey,
     {
       name: 'RSA-OAEP',
       hash: 'SHA-256',
     },
-    true,
+    false,
     ['decrypt']
   );
 }
 
 /**
- * Encrypt message using hybrid encryption (AES-GCM + RSA-OAEP)
+ * HKDF-SHA256 key derivation
+ * @param length - Output length in bytes
+ */
+export async function hkdf(
+  inputKeyMaterial: ArrayBuffer | Uint8Array,
+  salt: ArrayBuffer | Uint8Array,
+  info: string,
+  length: number
+): Promise<ArrayBuffer> {
+  const key = await globalThis.crypto.subtle.importKey('raw', inputKeyMaterial, 'HKDF', false, [
+    'deriveBits',
+  ]);
+  return await globalThis.crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt,
+      info: new TextEncoder().encode(info),
+    },
+    key,
+    length * 8
+  );
+}
+
+/**
+ * A party the message key is wrapped for (typically the sender and the recipient),
+ * with their RSA-OAEP or X25519 public key
+ */
+export interface MessageRecipient {
+  id: string;
+  publicKey: CryptoKey;
+}
+
+/**
+ * Envelope versions:
+ * 0 - legacy rows: bare AES-GCM ciphertext, no associated data
+ * 1 - ciphertext prefixed with a JSON header that is bound as AES-GCM associated data
+ * 2 - as 1, but the recipient's copy of the AES key is carried by a Double Ratchet session (see session.ts)
+ * 3 - AES key copies per device of both parties, each through a device session or wrapped to the device key
+ * 4 - group message: no key copies, the AES key is derived from the sender's sender key (see senderKeys.ts)
+ */
+export const CURRENT_ENVELOPE_VERSION = 1;
+export const SESSION_ENVELOPE_VERSION = 2;
+export const DEVICE_ENVELOPE_VERSION = 3;
+export const GROUP_ENVELOPE_VERSION = 4;
+
+export type CipherSuite =
+  | 'RSA-OAEP-SHA256/AES-256-GCM'
+  | 'X25519-HKDF-SHA256/AES-256-GCM'
+  | 'X3DH-DR/AES-256-GCM'
+  | 'MULTI-DEVICE/AES-256-GCM'
+  | 'SENDER-KEY/AES-256-GCM';
+
+export type KeyWrapAlgorithm = 'RSA-OAEP-SHA256' | 'X25519-HKDF-SHA256';
+
+/**
+ * X3DH key agreement data, sent with every message of a new session until the peer replies
+ */
+export interface X3DHInit {
+  identityKey: string;
+  ephemeralKey: string;
+  signedPreKeyId: number;
+  oneTimePreKeyId: number | null;
+}
+
+/**
+ * Double Ratchet message header
+ */
+export interface RatchetHeader {
+  sessionId: string;
+  ratchetKey: string;
+  previousCount: number;
+  count: number;
+  init?: X3DHInit;
+}
+
+/**
+ * Self-describing header of a versioned envelope. The encoded header is used as
+ * AES-GCM associated data, so a ciphertext cannot be replayed into another
+ * conversation or under another message id.
+ */
+export interface EnvelopeHeader {
+  version: number;
+  suite: CipherSuite;
+  senderId: string;
+  recipientId: string;
+  messageId: string;
+  // Key id of the public key each party's (or device's) copy of the AES key is wrapped with
+  keyIds: Record<string, string>;
+  // How each copy is wrapped; absent before EC identities (all RSA-OAEP)
+  wrapAlgorithms?: Record<string, KeyWrapAlgorithm>;
+  ratchet?: RatchetHeader;
+  // Version 3: sending device, and ratchet headers of copies carried by device sessions
+  senderDeviceId?: string;
+  ratchets?: Record<string, RatchetHeader>;
+  // Version 4: id of the sender key the AES key is derived from
+  senderKeyId?: string;
+  // How the plaintext was padded before encryption; absent for unpadded messages
+  padding?: PaddingScheme;
+}
+
+export interface Envelope {
+  header: EnvelopeHeader;
+  ciphertext: string;
+}
+
+/**
+ * Encoded envelope as stored in `messages.ciphertext`: `<base64 header JSON>.<base64 ciphertext>`
+ */
+export function encodeEnvelope(envelope: Envelope): string {
+  return `${encodeEnvelopeHeader(envelope.header)}.${envelope.ciphertext}`;
+}
+
+export function decodeEnvelope(encoded: string): Envelope {
+  const [encodedHeader, ciphertext] = encoded.split('.');
+  if (!encodedHeader || !ciphertext) {
+    throw new Error('Malformed message envelope');
+  }
+
+  const header = JSON.parse(
+    new TextDecoder().decode(base64ToArrayBuffer(encodedHeader))
+  ) as EnvelopeHeader;
+  return { header, ciphertext };
+}
+
+function encodeEnvelopeHeader(header: EnvelopeHeader): string {
+  return arrayBufferToBase64(new TextEncoder().encode(JSON.stringify(header)).buffer);
+}
+
+// Associated data is the exact encoded header, so any change to it fails authentication
+function envelopeAssociatedData(encoded: string): Uint8Array {
+  return new TextEncoder().encode(encoded.split('.')[0]);
+}
+
+/**
+ * Derive a stable key id from a public key (hex SHA-256 of its SPKI, truncated to 128 bits)
+ */
+export async function computeKeyId(publicKey: CryptoKey): Promise<string> {
+  const spki = await globalThis.crypto.subtle.exportKey('spki', publicKey);
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', spki);
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Human-readable fingerprint of a public key: full SHA-256 of its SPKI in groups of four hex digits
+ */
+export async function computeFingerprint(publicKey: CryptoKey): Promise<string> {
+  const spki = await globalThis.crypto.subtle.exportKey('spki', publicKey);
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', spki);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return hex.match(/.{4}/g)!.join(' ');
+}
+
+/**
+ * One side of a conversation as covered by its safety number
+ */
+export interface SafetyNumberParty {
+  id: string;
+  publicKey: CryptoKey;
+  signingPublicKey?: CryptoKey | null;
+}
+
+const SAFETY_NUMBER_VERSION = 0;
+const SAFETY_NUMBER_ITERATIONS = 5200;
+
+// 30 digits for one party: iterated SHA-512 over its keys and user id, read as
+// six 5-digit groups (the same construction as Signal's numeric fingerprint)
+async function safetyNumberDigits(party: SafetyNumberParty): Promise<string> {
+  const keys = [await globalThis.crypto.subtle.exportKey('spki', party.publicKey)];
+  if (party.signingPublicKey) {
+    keys.push(await globalThis.crypto.subtle.exportKey('spki', party.signingPublicKey));
+  }
+  const keyBytes = new Uint8Array(keys.reduce((length, key) => length + key.byteLength, 0));
+  let offset = 0;
+  for (const key of keys) {
+    keyBytes.set(new Uint8Array(key), offset);
+    offset += key.byteLength;
+  }
+
+  const id = new TextEncoder().encode(party.id);
+  const input = new Uint8Array(2 + keyBytes.length + id.length);
+  input.set([0, SAFETY_NUMBER_VERSION], 0);
+  input.set(keyBytes, 2);
+  input.set(id, 2 + keyBytes.length);
+
+  let hash = new Uint8Array(await globalThis.crypto.subtle.digest('SHA-512', input));
+  const round = new Uint8Array(hash.length + keyBytes.length);
+  for (let i = 0; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    round.set(hash, 0);
+    round.set(keyBytes, hash.length);
+    hash = new Uint8Array(await globalThis.crypto.subtle.digest('SHA-512', round));
+  }
+
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0;
+    for (const byte of hash.slice(chunk * 5, chunk * 5 + 5)) {
+      value = value * 256 + byte;
+    }
+    digits += (value % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+}
+
+/**
+ * Safety number of a conversation: 60 digits derived from both parties' identity
+ * and signing keys. Both sides compute the same number, so comparing it out of
+ * band proves neither key was swapped by the server.
+ */
+export async function computeSafetyNumber(
+  local: SafetyNumberParty,
+  remote: SafetyNumberParty
+): Promise<string> {
+  const halves = await Promise.all([safetyNumberDigits(local), safetyNumberDigits(remote)]);
+  return halves.sort().join('');
+}
+
+/**
+ * Generate a random 256-bit AES key for a single message body
+ */
+export function generateContentKey(): ArrayBuffer {
+  return globalThis.crypto.getRandomValues(new Uint8Array(32)).buffer;
+}
+
+/**
+ * Plaintext padding schemes:
+ * iso7816-4 - a 0x80 marker byte, then zero bytes up to the padded length
+ */
+export type PaddingScheme = 'iso7816-4';
+
+/**
+ * How far plaintexts are padded to hide their length:
+ * none    - no padding (the exact length is visible)
+ * padme   - Padmé: at most ~12% overhead, leaking O(log log n) bits of the length
+ * buckets - the smallest listed size that fits, then multiples of the largest
+ * Padded lengths are never below minimumSize, so short replies all look alike.
+ */
+export type PaddingPolicy =
+  | { scheme: 'none' }
+  | { scheme: 'padme'; minimumSize: number }
+  | { scheme: 'buckets'; sizes: number[] };
+
+export const DEFAULT_PADDING_POLICY: PaddingPolicy = { scheme: 'padme', minimumSize: 64 };
+
+let paddingPolicy: PaddingPolicy = DEFAULT_PADDING_POLICY;
+
+/**
+ * Choose how new messages are padded; messages are read the same way regardless
+ */
+export function setPaddingPolicy(policy: PaddingPolicy): void {
+  if (policy.scheme === 'buckets' && !policy.sizes.some((size) => size > 0)) {
+    throw new Error('A bucket policy needs at least one positive size');
+  }
+  paddingPolicy = policy;
+}
+
+export function getPaddingPolicy(): PaddingPolicy {
+  return paddingPolicy;
+}
+
+// Padmé (Nikitin et al., 2019): round up to a length whose low bits are zero
+function padmeLength(length: number): number {
+  if (length < 2) return length;
+  const exponent = Math.floor(Math.log2(length));
+  const mantissaBits = Math.floor(Math.log2(exponent)) + 1;
+  const mask = 2 ** (exponent - mantissaBits) - 1;
+  return Math.ceil(length / (mask + 1)) * (mask + 1);
+}
+
+/**
+ * Length a plaintext of the given size (padding marker included) is padded to
+ */
+export function paddedLength(length: number, policy: PaddingPolicy = paddingPolicy): number {
+  switch (policy.scheme) {
+    case 'none':
+      return length;
+    case 'padme':
+      return padmeLength(Math.max(length, policy.minimumSize));
+    case 'buckets': {
+      const sizes = policy.sizes.filter((size) => size > 0).sort((a, b) => a - b);
+      const largest = sizes[sizes.length - 1];
+      return sizes.find((size) => size >= length) ?? Math.ceil(length / largest) * largest;
+    }
+  }
+}
+
+/**
+ * Pad plaintext bytes under the current policy
+ * @returns Padded bytes and the scheme to record in the header, or none if not padded
+ */
+export function padPlaintext(data: Uint8Array): { padded: Uint8Array; scheme?: PaddingScheme } {
+  if (paddingPolicy.scheme === 'none') return { padded: data };
+
+  const padded = new Uint8Array(paddedLength(data.length + 1));
+  padded.set(data, 0);
+  padded[data.length] = 0x80;
+  return { padded, scheme: 'iso7816-4' };
+}
+
+/**
+ * Strip padding added by padPlaintext
+ * @throws If the padding is malformed
+ */
+export function unpadPlaintext(data: Uint8Array, scheme: PaddingScheme): Uint8Array {
+  if (scheme !== 'iso7816-4') throw new Error(`Unsupported padding scheme ${scheme}`);
+
+  let end = data.length - 1;
+  while (end >= 0 && data[end] === 0) end--;
+  if (end < 0 || data[end] !== 0x80) throw new Error('Invalid message padding');
+  return data.slice(0, end);
+}
+
+/**
+ * Encrypt a message body with AES-GCM, binding the envelope header as associated data
  * @param message - Plain text message to encrypt
- * @param recipientPublicKey - Recipient's RSA public key
- * @returns Object containing ciphertext, IV, and encrypted AES key
+ * @param header - Envelope header describing the message
+ * @param contentKey - Raw AES key from generateContentKey
+ * @returns Encoded envelope and Base64 encoded IV
  */
-export async function encryptMessage(
+export async function sealEnvelope(
   message: string,
-  recipientPublicKey: CryptoKey
-): Promise<{
-  ciphertext: string;
-  iv: string;
-  encryptedKey: string;
-}> {
-  // Generate random AES-GCM key
-  const aesKey = await window.crypto.subtle.generateKey(
+  header: EnvelopeHeader,
+  contentKey: ArrayBuffer
+): Promise<{ ciphertext: string; iv: string }> {
+  const aesKey = await globalThis.crypto.subtle.importKey(
+    'raw',
+    contentKey,
     {
       name: 'AES-GCM',
       length: 256,
     },
-    true,
-    ['encrypt', 'decrypt']
+    false,
+    ['encrypt']
   );
 
   // Generate random IV
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+
+  // Pad to hide the exact length; the scheme is recorded in the authenticated header
+  const { padded, scheme } = padPlaintext(new TextEncoder().encode(message));
+  const paddedHeader: EnvelopeHeader = scheme ? { ...header, padding: scheme } : header;
 
-  // Encrypt message with AES-GCM
-  const encodedMessage = new TextEncoder().encode(message);
-  const ciphertext = await window.crypto.subtle.encrypt(
+  // Encrypt message with AES-GCM, authenticating the header
+  const ciphertext = await globalThis.crypto.subtle.encrypt(
     {
       name: 'AES-GCM',
       iv: iv,
+      additionalData: envelopeAssociatedData(encodeEnvelopeHeader(paddedHeader)),
     },
     aesKey,
-    encodedMessage
+    padded
   );
 
-  // Export AES key
-  const exportedAesKey = await window.crypto.subtle.exportKey('raw', aesKey);
+  return {
+    ciphertext: encodeEnvelope({ header: paddedHeader, ciphertext: arrayBufferToBase64(ciphertext) }),
+    iv: arrayBufferToBase64(iv.buffer),
+  };
+}
+
+const X25519_WRAP_INFO = 'TrustStream X25519 Key Wrap';
+
+// Key and IV for wrapping one content key, from a single-use ECDH shared secret
+async function x25519WrapCipher(sharedSecret: ArrayBuffer, ephemeralKey: ArrayBuffer): Promise<{ key: CryptoKey; iv: Uint8Array }> {
+  const output = new Uint8Array(await hkdf(sharedSecret, ephemeralKey, X25519_WRAP_INFO, 44));
+  const key = await globalThis.crypto.subtle.importKey('raw', output.slice(0, 32), 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  return { key, iv: output.slice(32) };
+}
+
+/**
+ * Key wrapping algorithm used for a public or private identity key
+ */
+export function keyWrapAlgorithm(key: CryptoKey): KeyWrapAlgorithm {
+  return key.algorithm.name === 'X25519' ? 'X25519-HKDF-SHA256' : 'RSA-OAEP-SHA256';
+}
+
+/**
+ * Wrap a raw AES key for a public key: RSA-OAEP, or for X25519 an ephemeral
+ * ECDH agreement whose HKDF output encrypts the key with AES-GCM
+ * @returns Base64 wrapped key (for X25519: ephemeral public key followed by ciphertext)
+ */
+export async function wrapContentKey(contentKey: ArrayBuffer, publicKey: CryptoKey): Promise<string> {
+  if (keyWrapAlgorithm(publicKey) === 'X25519-HKDF-SHA256') {
+    const ephemeral = await generateECKeyPair();
+    const sharedSecret = await globalThis.crypto.subtle.deriveBits(
+      { name: 'X25519', public: publicKey },
+      ephemeral.privateKey,
+      256
+    );
+    const ephemeralKey = await globalThis.crypto.subtle.exportKey('raw', ephemeral.publicKey);
+    const { key, iv } = await x25519WrapCipher(sharedSecret, ephemeralKey);
+    const wrapped = await globalThis.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, contentKey);
+
+    const result = new Uint8Array(ephemeralKey.byteLength + wrapped.byteLength);
+    result.set(new Uint8Array(ephemeralKey), 0);
+    result.set(new Uint8Array(wrapped), ephemeralKey.byteLength);
+    return arrayBufferToBase64(result.buffer);
+  }
 
-  // Encrypt AES key with recipient's RSA public key
-  const encryptedAesKey = await window.crypto.subtle.encrypt(
+  const encryptedAesKey = await globalThis.crypto.subtle.encrypt(
     {
       name: 'RSA-OAEP',
     },
-    recipientPublicKey,
-    exportedAesKey
+    publicKey,
+    contentKey
   );
-
-  return {
-    ciphertext: arrayBufferToBase64(ciphertext),
-    iv: arrayBufferToBase64(iv.buffer),
-    encryptedKey: arrayBufferToBase64(encryptedAesKey),
-  };
+  return arrayBufferToBase64(encryptedAesKey);
 }
 
 /**
- * Decrypt message using hybrid encryption
- * @param ciphertext - Base64 encoded encrypted message
- * @param iv - Base64 encoded initialization vector
- * @param encryptedKey - Base64 encoded encrypted AES key
- * @param privateKey - User's RSA private key
- * @returns Decrypted plain text message
+ * Unwrap a raw AES key with the matching RSA or X25519 private key
  */
-export async function decryptMessage(
-  ciphertext: string,
-  iv: string,
-  encryptedKey: string,
-  privateKey: CryptoKey
-): Promise<string> {
-  // Decrypt AES key with RSA private key
-  const encryptedAesKeyBuffer = base64ToArrayBuffer(encryptedKey);
-  const aesKeyBuffer = await window.crypto.subtle.decrypt(
+export async function unwrapContentKey(encryptedKey: string, privateKey: CryptoKey): Promise<ArrayBuffer> {
+  if (keyWrapAlgorithm(privateKey) === 'X25519-HKDF-SHA256') {
+    const wrapped = new Uint8Array(base64ToArrayBuffer(encryptedKey));
+    const ephemeralKey = wrapped.slice(0, 32).buffer;
+    const ephemeralPublicKey = await globalThis.crypto.subtle.importKey(
+      'raw',
+      ephemeralKey,
+      { name: 'X25519' },
+      true,
+      []
+    );
+    const sharedSecret = await globalThis.crypto.subtle.deriveBits(
+      { name: 'X25519', public: ephemeralPublicKey },
+      privateKey,
+      256
+    );
+    const { key, iv } = await x25519WrapCipher(sharedSecret, ephemeralKey);
+    return await globalThis.crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, wrapped.slice(32));
+  }
+
+  return await globalThis.crypto.subtle.decrypt(
     {
       name: 'RSA-OAEP',
     },
     privateKey,
-    encryptedAesKeyBuffer
+    base64ToArrayBuffer(encryptedKey)
   );
+}
+
+/**
+ * Encrypt message using hybrid encryption (AES-GCM + RSA-OAEP or X25519 key wrapping)
+ * @param message - Plain text message to encrypt
+ * @param context - Message id and parties, bound to the ciphertext as associated data
+ * @param recipients - Parties allowed to read the message, each with their identity public key;
+ *   the wrapping scheme follows each key's type
+ * @returns Object containing the encoded envelope, IV, envelope version and the AES key wrapped once per recipient id
+ */
+export async function encryptMessage(
+  message: string,
+  context: { messageId: string; senderId: string; recipientId: string },
+  recipients: MessageRecipient[]
+): Promise<{
+  ciphertext: string;
+  iv: string;
+  encryptedKeys: Record<string, string>;
+  envelopeVersion: number;
+}> {
+  const contentKey = generateContentKey();
+
+  // Wrap the AES key with each recipient's public key
+  const encryptedKeys: Record<string, string> = {};
+  const keyIds: Record<string, string> = {};
+  const wrapAlgorithms: Record<string, KeyWrapAlgorithm> = {};
+  for (const recipient of recipients) {
+    encryptedKeys[recipient.id] = await wrapContentKey(contentKey, recipient.publicKey);
+    keyIds[recipient.id] = await computeKeyId(recipient.publicKey);
+    wrapAlgorithms[recipient.id] = keyWrapAlgorithm(recipient.publicKey);
+  }
+
+  // Envelopes addressed to a conversation rather than a user name the first party's wrapping
+  const suiteWrap = wrapAlgorithms[context.recipientId] ?? wrapAlgorithms[recipients[0]?.id];
+  const header: EnvelopeHeader = {
+    version: CURRENT_ENVELOPE_VERSION,
+    suite: `${suiteWrap}/AES-256-GCM`,
+    senderId: context.senderId,
+    recipientId: context.recipientId,
+    messageId: context.messageId,
+    keyIds,
+    wrapAlgorithms,
+  };
+  const { ciphertext, iv } = await sealEnvelope(message, header, contentKey);
+
+  return {
+    ciphertext,
+    iv,
+    encryptedKeys,
+    envelopeVersion: CURRENT_ENVELOPE_VERSION,
+  };
+}
 
-  // Import AES key
-  const aesKey = await window.crypto.subtle.importKey(
+/**
+ * Pick the wrapped AES key addressed to the given user
+ * @param encryptedKeys - Wrapped keys by user id (empty for messages sent before multi-recipient envelopes)
+ * @param legacyKey - Key wrapped for the recipient only, as stored in `encrypted_key`
+ * @param recipientId - Recipient of the message
+ * @param userId - Current user
+ * @returns The wrapped key, or null if the message was not encrypted for this user
+ */
+export function selectEncryptedKey(
+  encryptedKeys: Record<string, string> | null,
+  legacyKey: string,
+  recipientId: string,
+  userId: string
+): string | null {
+  if (encryptedKeys?.[userId]) {
+    return encryptedKeys[userId];
+  }
+  return recipientId === userId ? legacyKey : null;
+}
+
+/**
+ * Encrypted message as stored in `public.messages`
+ */
+export interface EncryptedMessage {
+  id: string;
+  senderId: string;
+  // Recipient user, or the conversation of a group message
+  recipientId: string;
+  envelopeVersion: number;
+  ciphertext: string;
+  iv: string;
+  encryptedKey: string;
+  encryptedKeys: Record<string, string> | null;
+}
+
+/**
+ * Decrypt the body of a stored message, dispatching on the envelope version
+ * @param message - Stored message row
+ * @param contentKey - Raw AES key the body was encrypted with
+ * @returns Decrypted plain text message
+ */
+export async function openEnvelope(message: EncryptedMessage, contentKey: ArrayBuffer): Promise<string> {
+  const aesKey = await globalThis.crypto.subtle.importKey(
     'raw',
-    aesKeyBuffer,
+    contentKey,
     {
       name: 'AES-GCM',
       length: 256,
@@ -188,79 +705,587 @@ export async function decryptMessage(
     false,
     ['decrypt']
   );
+  const ivBuffer = base64ToArrayBuffer(message.iv);
 
-  // Decrypt message with AES-GCM
-  const ivBuffer = base64ToArrayBuffer(iv);
-  const ciphertextBuffer = base64ToArrayBuffer(ciphertext);
-  
-  const decryptedBuffer = await window.crypto.subtle.decrypt(
-    {
-      name: 'AES-GCM',
-      iv: ivBuffer,
-    },
-    aesKey,
-    ciphertextBuffer
+  switch (message.envelopeVersion) {
+    case 0: {
+      const decryptedBuffer = await globalThis.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: ivBuffer,
+        },
+        aesKey,
+        base64ToArrayBuffer(message.ciphertext)
+      );
+      return new TextDecoder().decode(decryptedBuffer);
+    }
+
+    case CURRENT_ENVELOPE_VERSION:
+    case SESSION_ENVELOPE_VERSION:
+    case DEVICE_ENVELOPE_VERSION:
+    case GROUP_ENVELOPE_VERSION: {
+      const { header, ciphertext } = decodeEnvelope(message.ciphertext);
+      if (
+        header.version !== message.envelopeVersion ||
+        header.senderId !== message.senderId ||
+        header.recipientId !== message.recipientId ||
+        header.messageId !== message.id
+      ) {
+        throw new Error('Envelope header does not match the stored message');
+      }
+
+      const decryptedBuffer = await globalThis.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: ivBuffer,
+          additionalData: envelopeAssociatedData(message.ciphertext),
+        },
+        aesKey,
+        base64ToArrayBuffer(ciphertext)
+      );
+      // Messages from before padding was introduced carry no padding field
+      const plaintext = header.padding
+        ? unpadPlaintext(new Uint8Array(decryptedBuffer), header.padding)
+        : new Uint8Array(decryptedBuffer);
+      return new TextDecoder().decode(plaintext);
+    }
+
+    default:
+      throw new Error(`Unsupported envelope version ${message.envelopeVersion}`);
+  }
+}
+
+/**
+ * X25519 key of this browser, registered in the devices table
+ */
+export interface DeviceKey {
+  id: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * Decrypt message using hybrid encryption
+ * @param message - Stored message row
+ * @param userId - Current user, used to pick their wrapped copy of the AES key
+ * @param privateKeys - User's identity private keys on this device (RSA and/or X25519);
+ *   the one matching the copy's wrapping algorithm is used
+ * @param device - This browser's device key, for copies wrapped to the device
+ * @returns Decrypted plain text message, or null if the message carries no key for this user
+ */
+export async function decryptMessage(
+  message: EncryptedMessage,
+  userId: string,
+  privateKeys: IdentityPrivateKey[],
+  device?: DeviceKey
+): Promise<string | null> {
+  if (message.envelopeVersion === SESSION_ENVELOPE_VERSION && message.recipientId === userId) {
+    throw new Error('Session messages must be decrypted with decryptSessionMessage');
+  }
+
+  // A copy wrapped to this device works even if the identity key was never brought here
+  const deviceKey = device && message.encryptedKeys?.[device.id];
+  if (deviceKey) {
+    if (decodeEnvelope(message.ciphertext).header.ratchets?.[device.id]) {
+      throw new Error('Session messages must be decrypted with decryptSessionMessage');
+    }
+    return await openEnvelope(message, await unwrapContentKey(deviceKey, device.privateKey));
+  }
+
+  const encryptedKey = selectEncryptedKey(
+    message.encryptedKeys,
+    message.encryptedKey,
+    message.recipientId,
+    userId
   );
+  if (!encryptedKey) return null;
+
+  const header = message.envelopeVersion === 0 ? null : decodeEnvelope(message.ciphertext).header;
+  const algorithm = header?.wrapAlgorithms?.[userId] ?? 'RSA-OAEP-SHA256';
+  const candidates = privateKeys.filter((key) => keyWrapAlgorithm(key.privateKey) === algorithm);
+  // Pick the key the copy was wrapped to; keys stored before key ids were recorded
+  // have none, so fall back to the newest key of the right algorithm
+  const keyId = header?.keyIds?.[userId];
+  const privateKey = candidates.find((key) => keyId && key.keyId === keyId) ?? candidates[0];
+  if (!privateKey) {
+    throw new Error(`No ${algorithm} private key on this device`);
+  }
 
-  return new TextDecoder().decode(decryptedBuffer);
+  const contentKey = await unwrapContentKey(encryptedKey, privateKey.privateKey);
+  return await openEnvelope(message, contentKey);
 }
 
 /**
- * Store private key in IndexedDB
+ * Streaming encryption for large payloads such as files
+ *
+ * An encrypted stream starts with a 12-byte header: format version, plaintext
+ * chunk size (uint32, big-endian) and a random 7-byte nonce prefix. The plaintext
+ * follows in chunks of exactly the chunk size, except the final chunk, which is
+ * shorter (possibly empty). Each chunk is sealed with AES-GCM under the nonce
+ * prefix || chunk index (uint32) || final flag, with the header and any caller
+ * associated data authenticated. Chunks therefore cannot be reordered, dropped or
+ * spliced between streams, and a stream cut off after any non-final chunk fails.
  */
-export async function storePrivateKey(userId: string, privateKey: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open('EncryptDB', 1);
-
-    request.onerror = () => reject(request.error);
-    
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction(['keys'], 'readwrite');
-      const store = transaction.objectStore('keys');
-      store.put({ userId, privateKey });
-      
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
-    };
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains('keys')) {
-        db.createObjectStore('keys', { keyPath: 'userId' });
+export const STREAM_VERSION = 1;
+export const STREAM_CHUNK_SIZE = 64 * 1024;
+// The chunk size in the header is read before anything is authenticated, and a
+// chunk is buffered whole, so larger sizes are refused instead of allocated
+export const MAX_STREAM_CHUNK_SIZE = 16 * STREAM_CHUNK_SIZE;
+
+const STREAM_HEADER_LENGTH = 12;
+const STREAM_NONCE_PREFIX_LENGTH = 7;
+const AES_GCM_TAG_LENGTH = 16;
+
+export interface StreamOptions {
+  // Bytes the stream is bound to, e.g. the id of the message it belongs to
+  associatedData?: Uint8Array;
+}
+
+// Reads a byte stream in pieces of a requested length, regardless of how the source splits it
+function byteReader(input: Blob | ReadableStream<Uint8Array>) {
+  const reader = (input instanceof Blob ? input.stream() : input).getReader();
+  let pending = new Uint8Array(0);
+  let done = false;
+
+  return {
+    // Read exactly `length` bytes, or fewer only at the end of the input
+    async read(length: number): Promise<Uint8Array> {
+      const result = new Uint8Array(length);
+      let filled = 0;
+      while (filled < length) {
+        if (pending.length === 0) {
+          if (done) break;
+          const next = await reader.read();
+          if (next.done) {
+            done = true;
+            break;
+          }
+          pending = next.value;
+        }
+        const count = Math.min(length - filled, pending.length);
+        result.set(pending.subarray(0, count), filled);
+        pending = pending.subarray(count);
+        filled += count;
       }
-    };
+      return result.subarray(0, filled);
+    },
+    cancel: (reason?: unknown) => reader.cancel(reason),
+  };
+}
+
+function streamNonce(prefix: Uint8Array, index: number, final: boolean): Uint8Array {
+  if (index > 0xffffffff) throw new Error('Encrypted stream is too long');
+  const nonce = new Uint8Array(12);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(STREAM_NONCE_PREFIX_LENGTH, index);
+  nonce[11] = final ? 1 : 0;
+  return nonce;
+}
+
+function streamAssociatedData(header: Uint8Array, options: StreamOptions): Uint8Array {
+  const extra = options.associatedData ?? new Uint8Array(0);
+  const data = new Uint8Array(header.length + extra.length);
+  data.set(header, 0);
+  data.set(extra, header.length);
+  return data;
+}
+
+async function importStreamKey(contentKey: ArrayBuffer, usage: KeyUsage): Promise<CryptoKey> {
+  return await globalThis.crypto.subtle.importKey('raw', contentKey, { name: 'AES-GCM', length: 256 }, false, [
+    usage,
+  ]);
+}
+
+/**
+ * Size of the encrypted stream for a plaintext of the given size
+ */
+export function encryptedStreamSize(plaintextSize: number, chunkSize: number = STREAM_CHUNK_SIZE): number {
+  const chunks = Math.floor(plaintextSize / chunkSize) + 1;
+  return STREAM_HEADER_LENGTH + plaintextSize + chunks * AES_GCM_TAG_LENGTH;
+}
+
+/**
+ * Encrypt a Blob or byte stream chunk by chunk, without holding it in memory
+ * @param input - Plaintext, e.g. a File
+ * @param contentKey - Raw AES key from generateContentKey; wrap it for recipients with wrapContentKey
+ * @param options - Associated data to bind the stream to, and the plaintext chunk size
+ * @returns Encrypted stream; errors if reading the input fails
+ */
+export function encryptStream(
+  input: Blob | ReadableStream<Uint8Array>,
+  contentKey: ArrayBuffer,
+  options: StreamOptions & { chunkSize?: number } = {}
+): ReadableStream<Uint8Array> {
+  const chunkSize = options.chunkSize ?? STREAM_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_STREAM_CHUNK_SIZE) {
+    throw new Error('Invalid stream chunk size');
+  }
+
+  const source = byteReader(input);
+  const header = new Uint8Array(STREAM_HEADER_LENGTH);
+  header[0] = STREAM_VERSION;
+  new DataView(header.buffer).setUint32(1, chunkSize);
+  const prefix = globalThis.crypto.getRandomValues(new Uint8Array(STREAM_NONCE_PREFIX_LENGTH));
+  header.set(prefix, 5);
+  const additionalData = streamAssociatedData(header, options);
+
+  let aesKey: CryptoKey;
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      aesKey = await importStreamKey(contentKey, 'encrypt');
+      controller.enqueue(header);
+    },
+    async pull(controller) {
+      const plaintext = await source.read(chunkSize);
+      // Only the last chunk is shorter than the chunk size
+      const final = plaintext.length < chunkSize;
+      const ciphertext = await globalThis.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: streamNonce(prefix, index, final), additionalData },
+        aesKey,
+        plaintext
+      );
+      index++;
+      controller.enqueue(new Uint8Array(ciphertext));
+      if (final) controller.close();
+    },
+    cancel: (reason) => source.cancel(reason),
   });
 }
 
 /**
- * Retrieve private key from IndexedDB
+ * Decrypt a stream produced by encryptStream, chunk by chunk
+ * Plaintext is only released once its chunk has authenticated. The returned stream
+ * errors if any chunk was altered, reordered or removed, or the input was truncated;
+ * consumers must treat output already read as invalid in that case.
+ * @param input - Encrypted stream, e.g. a downloaded Blob or a fetch response body
+ * @param contentKey - Raw AES key the stream was encrypted with
+ * @param options - The associated data given to encryptStream
  */
-export async function retrievePrivateKey(userId: string): Promise<string | null> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open('EncryptDB', 1);
-
-    request.onerror = () => reject(request.error);
-    
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction(['keys'], 'readonly');
-      const store = transaction.objectStore('keys');
-      const getRequest = store.get(userId);
-
-      getRequest.onsuccess = () => {
-        const result = getRequest.result;
-        resolve(result ? result.privateKey : null);
-      };
-      
-      getRequest.onerror = () => reject(getRequest.error);
-    };
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains('keys')) {
-        db.createObjectStore('keys', { keyPath: 'userId' });
+export function decryptStream(
+  input: Blob | ReadableStream<Uint8Array>,
+  contentKey: ArrayBuffer,
+  options: StreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const source = byteReader(input);
+
+  let aesKey: CryptoKey;
+  let prefix: Uint8Array;
+  let additionalData: Uint8Array;
+  let chunkSize: number;
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async start() {
+      const header = await source.read(STREAM_HEADER_LENGTH);
+      if (header.length < STREAM_HEADER_LENGTH) throw new Error('Encrypted stream is truncated');
+      if (header[0] !== STREAM_VERSION) {
+        throw new Error(`Unsupported encrypted stream version ${header[0]}`);
+      }
+
+      chunkSize = new DataView(header.buffer, header.byteOffset).getUint32(1);
+      if (chunkSize < 1 || chunkSize > MAX_STREAM_CHUNK_SIZE) {
+        throw new Error('Invalid stream chunk size');
+      }
+      prefix = header.slice(5);
+      additionalData = streamAssociatedData(header, options);
+      aesKey = await importStreamKey(contentKey, 'decrypt');
+    },
+    async pull(controller) {
+      const ciphertext = await source.read(chunkSize + AES_GCM_TAG_LENGTH);
+      // Full-size chunks are never final, so losing the final chunk cannot go unnoticed
+      const final = ciphertext.length < chunkSize + AES_GCM_TAG_LENGTH;
+      if (ciphertext.length < AES_GCM_TAG_LENGTH) throw new Error('Encrypted stream is truncated');
+
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await globalThis.crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: streamNonce(prefix, index, final), additionalData },
+          aesKey,
+          ciphertext
+        );
+      } catch {
+        throw new Error(`Encrypted stream chunk ${index} failed authentication`);
       }
-    };
+      index++;
+      controller.enqueue(new Uint8Array(plaintext));
+      if (final) controller.close();
+    },
+    cancel: (reason) => source.cancel(reason),
   });
 }
+
+/**
+ * Encrypt a file under a fresh content key with streaming encryption
+ * @param file - File or other Blob to encrypt
+ * @param associatedData - Bytes to bind the encrypted file to, e.g. its storage path
+ * @returns The encrypted blob, its base64 raw AES key and the base64 SHA-256 of the encrypted blob
+ */
+export async function encryptFile(
+  file: Blob,
+  associatedData?: Uint8Array
+): Promise<{ encrypted: Blob; key: string; digest: string }> {
+  const contentKey = generateContentKey();
+  const encrypted = await new Response(encryptStream(file, contentKey, { associatedData })).blob();
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', await encrypted.arrayBuffer());
+  return {
+    encrypted,
+    key: arrayBufferToBase64(contentKey),
+    digest: arrayBufferToBase64(digest),
+  };
+}
+
+/**
+ * Check and decrypt a file produced by encryptFile
+ * @param type - MIME type given to the decrypted blob
+ * @throws If the digest does not match or the file fails authentication
+ */
+export async function decryptFile(
+  encrypted: Blob,
+  key: string,
+  digest: string,
+  associatedData?: Uint8Array,
+  type = ''
+): Promise<Blob> {
+  const actual = await globalThis.crypto.subtle.digest('SHA-256', await encrypted.arrayBuffer());
+  if (arrayBufferToBase64(actual) !== digest) {
+    throw new Error('Encrypted file does not match its digest');
+  }
+
+  const decrypted = await new Response(
+    decryptStream(encrypted, base64ToArrayBuffer(key), { associatedData })
+  ).blob();
+  return type ? new Blob([decrypted], { type }) : decrypted;
+}
+
+/**
+ * Message fields covered by the sender's signature
+ */
+export interface SignedMessageFields {
+  ciphertext: string;
+  iv: string;
+  senderId: string;
+  recipientId: string;
+  createdAt: string;
+}
+
+/**
+ * Signing key algorithms: ECDSA P-256 for RSA-era accounts, Ed25519 for EC identities
+ */
+export type SigningAlgorithm = 'ECDSA' | 'Ed25519';
+
+const ED25519_OID = [0x06, 0x03, 0x2b, 0x65, 0x70];
+
+// Tell Ed25519 from ECDSA keys by the algorithm OID near the start of their SPKI/PKCS#8 encoding
+function detectSigningAlgorithm(der: ArrayBuffer): SigningAlgorithm {
+  const bytes = new Uint8Array(der).slice(0, 16);
+  for (let i = 0; i + ED25519_OID.length <= bytes.length; i++) {
+    if (ED25519_OID.every((b, j) => bytes[i + j] === b)) return 'Ed25519';
+  }
+  return 'ECDSA';
+}
+
+function signingKeyParams(algorithm: SigningAlgorithm): AlgorithmIdentifier | EcKeyImportParams {
+  return algorithm === 'Ed25519' ? { name: 'Ed25519' } : { name: 'ECDSA', namedCurve: 'P-256' };
+}
+
+function signatureParams(key: CryptoKey): AlgorithmIdentifier | EcdsaParams {
+  return key.algorithm.name === 'Ed25519' ? { name: 'Ed25519' } : { name: 'ECDSA', hash: 'SHA-256' };
+}
+
+/**
+ * Generate key pair for message signatures
+ * @param algorithm - ECDSA P-256 (default) or Ed25519
+ * @param extractable - Allow exporting the private key
+ */
+export async function generateSigningKeyPair(
+  algorithm: SigningAlgorithm = 'ECDSA',
+  extractable = false
+): Promise<CryptoKeyPair> {
+  return (await globalThis.crypto.subtle.generateKey(
+    signingKeyParams(algorithm),
+    extractable, // public keys are always exportable
+    ['sign', 'verify']
+  )) as CryptoKeyPair;
+}
+
+/**
+ * Import ECDSA or Ed25519 public key from PEM format string
+ */
+export async function importSigningPublicKey(pem: string): Promise<CryptoKey> {
+  const binaryKey = pemToArrayBuffer(pem);
+
+  return await globalThis.crypto.subtle.importKey(
+    'spki',
+    binaryKey,
+    signingKeyParams(detectSigningAlgorithm(binaryKey)),
+    true,
+    ['verify']
+  );
+}
+
+/**
+ * Import ECDSA or Ed25519 private key from storage
+ */
+export async function importSigningPrivateKey(keyData: string): Promise<CryptoKey> {
+  const binaryKey = base64ToArrayBuffer(keyData);
+
+  return await globalThis.crypto.subtle.importKey(
+    'pkcs8',
+    binaryKey,
+    signingKeyParams(detectSigningAlgorithm(binaryKey)),
+    false,
+    ['sign']
+  );
+}
+
+// Canonical byte encoding of the signed fields; timestamps are normalised
+// because Postgres returns them in a different ISO format than we send.
+function encodeSignedFields(fields: SignedMessageFields): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify([
+      fields.ciphertext,
+      fields.iv,
+      fields.senderId,
+      fields.recipientId,
+      new Date(fields.createdAt).toISOString(),
+    ])
+  );
+}
+
+/**
+ * Sign arbitrary bytes with an ECDSA or Ed25519 private key
+ * @returns Base64 encoded signature
+ */
+export async function signData(data: Uint8Array, signingKey: CryptoKey): Promise<string> {
+  const signature = await globalThis.crypto.subtle.sign(signatureParams(signingKey), signingKey, data);
+  return arrayBufferToBase64(signature);
+}
+
+/**
+ * Verify an ECDSA or Ed25519 signature over arbitrary bytes
+ */
+export async function verifyData(
+  data: Uint8Array,
+  signature: string,
+  signingPublicKey: CryptoKey
+): Promise<boolean> {
+  return await globalThis.crypto.subtle.verify(
+    signatureParams(signingPublicKey),
+    signingPublicKey,
+    base64ToArrayBuffer(signature),
+    data
+  );
+}
+
+/**
+ * Sign an encrypted message
+ * @param fields - Ciphertext, IV, sender, recipient and timestamp to sign
+ * @param signingKey - Sender's ECDSA or Ed25519 private key
+ * @returns Base64 encoded signature
+ */
+export async function signMessage(
+  fields: SignedMessageFields,
+  signingKey: CryptoKey
+): Promise<string> {
+  return await signData(encodeSignedFields(fields), signingKey);
+}
+
+/**
+ * Verify the signature on an encrypted message
+ * @param fields - Ciphertext, IV, sender, recipient and timestamp as stored
+ * @param signature - Base64 encoded signature
+ * @param signingPublicKey - Sender's ECDSA or Ed25519 public key
+ * @returns True if the signature is valid for these fields
+ */
+export async function verifyMessageSignature(
+  fields: SignedMessageFields,
+  signature: string,
+  signingPublicKey: CryptoKey
+): Promise<boolean> {
+  return await verifyData(encodeSignedFields(fields), signature, signingPublicKey);
+}
+
+/**
+ * An identity private key, with the key id of its public key when known
+ */
+export interface IdentityPrivateKey {
+  keyId?: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * An identity key replaced by a rotation, kept so older messages still decrypt
+ */
+export interface RetiredIdentityKey {
+  // Missing for keys stored before key ids were recorded
+  keyId?: string;
+  keyType: KeyType;
+  privateKey: CryptoKey;
+  retiredAt: string;
+}
+
+export interface StoredIdentityKey {
+  privateKey: CryptoKey;
+  keyType: KeyType;
+  keyId?: string;
+  // RSA key kept after upgrading to an EC identity so older messages still decrypt
+  legacyPrivateKey?: CryptoKey;
+  legacyKeyId?: string;
+  // Newest first
+  retiredKeys?: RetiredIdentityKey[];
+}
+
+/**
+ * All identity private keys of a stored identity, current key first
+ */
+export function identityPrivateKeys(identity: StoredIdentityKey): IdentityPrivateKey[] {
+  const keys: IdentityPrivateKey[] = [{ keyId: identity.keyId, privateKey: identity.privateKey }];
+  if (identity.legacyPrivateKey) {
+    keys.push({ keyId: identity.legacyKeyId, privateKey: identity.legacyPrivateKey });
+  }
+  for (const retired of identity.retiredKeys ?? []) {
+    keys.push({ keyId: retired.keyId, privateKey: retired.privateKey });
+  }
+  return keys;
+}
+
+/**
+ * Store private key in IndexedDB
+ */
+export async function storePrivateKey(userId: string, identity: StoredIdentityKey): Promise<void> {
+  await putRecord('keys', { userId, ...identity });
+}
+
+/**
+ * Retrieve private key from IndexedDB
+ * Records written before EC identities existed are RSA keys
+ */
+export async function retrievePrivateKey(userId: string): Promise<StoredIdentityKey | null> {
+  const result = await getRecord<Partial<StoredIdentityKey>>('keys', userId);
+  if (!(result?.privateKey instanceof CryptoKey)) return null;
+
+  return {
+    privateKey: result.privateKey,
+    keyType: result.keyType ?? 'rsa',
+    keyId: result.keyId,
+    legacyPrivateKey: result.legacyPrivateKey,
+    legacyKeyId: result.legacyKeyId,
+    retiredKeys: result.retiredKeys ?? [],
+  };
+}
+
+/**
+ * Store signing private key in IndexedDB
+ */
+export async function storeSigningKey(userId: string, signingKey: CryptoKey): Promise<void> {
+  await putRecord('signingKeys', { userId, signingKey });
+}
+
+/**
+ * Retrieve signing private key from IndexedDB
+ */
+export async function retrieveSigningKey(userId: string): Promise<CryptoKey | null> {
+  const result = await getRecord<{ signingKey: unknown }>('signingKeys', userId);
+  return result?.signingKey instanceof CryptoKey ? result.signingKey : null;
+}
@@ -0,0 +1,483 @@
+/**
+ * Crypto worker: key generation, message encryption, decryption and signing off
+ * the main thread. The current user's identity, signing and device private keys
+ * are loaded from IndexedDB into this worker and never posted back to the page.
+ * New, rotated, backed up and imported keys are handled here too; the page only
+ * sees public keys, passphrase-encrypted copies and handles to held keys.
+ * The worker has no Supabase session; everything that talks to the server stays
+ * on the main thread and calls in through the bridge in ./cryptoWorker.
+ */
+
+import {
+  decryptFile,
+  DeviceKey,
+  EncryptedMessage,
+  encryptFile,
+  encryptMessage,
+  exportPublicKey,
+  generateECKeyPair,
+  IdentityPrivateKey,
+  identityPrivateKeys,
+  importSigningPublicKey,
+  KeyType,
+  MessageRecipient,
+  PaddingPolicy,
+  retrievePrivateKey,
+  retrieveSigningKey,
+  setPaddingPolicy,
+  signData,
+  signMessage,
+  SignedMessageFields,
+  verifyMessageSignature,
+} from './crypto';
+import {
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  generateIdentity,
+  IdentityKeyMaterial,
+  IdentitySummary,
+  migrateStoredKeys,
+  PassphraseEncrypted,
+  replaceStoredIdentity,
+  restoreStoredIdentity,
+  saveIdentity,
+  StoredIdentity,
+  summarizeIdentity,
+} from './identity';
+import { getRecord, putRecord } from './keyStore';
+import {
+  decryptGroupMessage,
+  encryptGroupMessage,
+  generateSenderKey,
+  openSenderKey,
+  sealSenderKey,
+  SenderKey,
+  SenderKeyDistribution,
+} from './senderKeys';
+import {
+  decryptSessionMessage,
+  DeviceRecipient,
+  encryptDeviceMessage,
+  generateOneTimePrekeys,
+  generatePrekeys,
+  getLocalPrekeys,
+  hasSession,
+  initiateSession,
+  migrateSessionKeys,
+  PrekeyBundle,
+  SenderDevice,
+  signPrekeyBundle,
+} from './session';
+
+// Keys of the signed-in user, loaded by loadIdentity and loadDeviceKey
+let identity: {
+  userId: string;
+  privateKeys: IdentityPrivateKey[];
+  signingKey: CryptoKey | null;
+} | null = null;
+let device: DeviceKey | null = null;
+// Sender keys decrypted so far, by conversation, sender and key id
+const senderKeys = new Map<string, SenderKey>();
+// Keys generated or decrypted here and not stored yet, or taken out of storage by a
+// replacement, by handle
+type HeldIdentity =
+  | { material: IdentityKeyMaterial; stored?: undefined }
+  | { material: IdentityKeyMaterial | null; stored: StoredIdentity };
+const heldIdentities = new Map<string, HeldIdentity>();
+// Extractable copies of the identity keys stored by this worker, by user id. They are
+// never persisted, so keys can only be exported until the page is reloaded.
+const exportableIdentities = new Map<string, IdentityKeyMaterial>();
+
+function holdIdentity(held: HeldIdentity): string {
+  const handle = globalThis.crypto.randomUUID();
+  heldIdentities.set(handle, held);
+  return handle;
+}
+
+function requireExportCopy(userId: string): IdentityKeyMaterial {
+  const material = exportableIdentities.get(userId);
+  if (!material) {
+    throw new Error(
+      'Keys can only be exported until the page is reloaded after they were created, rotated, restored or imported'
+    );
+  }
+  return material;
+}
+
+function requireSigningKey(): CryptoKey {
+  if (!identity?.signingKey) throw new Error('No signing key loaded');
+  return identity.signingKey;
+}
+
+function senderKeyCacheKey(conversationId: string, senderId: string, keyId: string): string {
+  return `${conversationId}/${senderId}/${keyId}`;
+}
+
+// Decrypt a sender key addressed to the loaded identity, or take it from the cache
+async function loadSenderKey(distribution: SenderKeyDistribution): Promise<SenderKey> {
+  if (!identity) throw new Error('No keys loaded');
+  const cacheKey = senderKeyCacheKey(
+    distribution.conversationId,
+    distribution.senderId,
+    distribution.keyId
+  );
+  let senderKey = senderKeys.get(cacheKey);
+  if (!senderKey) {
+    senderKey = await openSenderKey(distribution, identity.userId, identity.privateKeys);
+    senderKeys.set(cacheKey, senderKey);
+  }
+  return senderKey;
+}
+
+const api = {
+  /**
+   * Generate identity (X25519) and signing (Ed25519) keys for a new account and hold
+   * them until saveIdentity stores them under the account's user id
+   * @returns Handle to the held keys and their PEM public keys
+   */
+  async createIdentity(): Promise<{ handle: string; publicKey: string; signingPublicKey: string }> {
+    const { material, publicKey, signingPublicKey } = await generateIdentity();
+    return { handle: holdIdentity({ material }), publicKey, signingPublicKey };
+  },
+
+  /**
+   * Store held keys as the user's identity on this device. Their extractable copy
+   * stays in memory for backups until the page is reloaded.
+   */
+  async saveIdentity(handle: string, userId: string): Promise<void> {
+    const held = heldIdentities.get(handle);
+    if (!held) throw new Error('No keys held under this handle');
+    if (held.stored) {
+      await restoreStoredIdentity(userId, held.stored);
+    } else {
+      await saveIdentity(userId, held.material);
+    }
+    if (held.material) {
+      exportableIdentities.set(userId, held.material);
+    } else {
+      exportableIdentities.delete(userId);
+    }
+    heldIdentities.delete(handle);
+  },
+
+  /**
+   * Drop held keys without storing them
+   */
+  async discardIdentity(handle: string): Promise<void> {
+    heldIdentities.delete(handle);
+  },
+
+  /**
+   * Store new identity and signing keys for the user in place of the current ones
+   * (see replaceStoredIdentity) and hold the current ones
+   * @returns Handle to the previous keys, to save again if publishing the new ones
+   *   fails, and the new public keys; null when an upgrade has nothing to do
+   */
+  async replaceIdentity(
+    userId: string,
+    kind: 'rotate' | 'upgrade'
+  ): Promise<{ handle: string; keyType: KeyType; publicKey: string; signingPublicKey: string } | null> {
+    const current = exportableIdentities.get(userId) ?? null;
+    const replacement = await replaceStoredIdentity(userId, kind, current);
+    if (!replacement) return null;
+
+    if (replacement.material) {
+      exportableIdentities.set(userId, replacement.material);
+    }
+    return {
+      handle: holdIdentity({ material: current, stored: replacement.previous }),
+      keyType: replacement.keyType,
+      publicKey: replacement.publicKey,
+      signingPublicKey: replacement.signingPublicKey,
+    };
+  },
+
+  /**
+   * Public details of the user's identity keys
+   * @returns null if they cannot be exported anymore (see encryptIdentity)
+   */
+  async describeIdentity(userId: string): Promise<IdentitySummary | null> {
+    const material = exportableIdentities.get(userId);
+    return material ? await summarizeIdentity(material) : null;
+  },
+
+  /**
+   * Encrypt the user's identity keys under a passphrase, for a backup or identity file
+   * @param associatedData - Context the copy is bound to
+   * @throws If the keys were not created, rotated, restored or imported since the page loaded
+   */
+  async encryptIdentity(
+    userId: string,
+    passphrase: string,
+    associatedData: string
+  ): Promise<PassphraseEncrypted> {
+    const material = requireExportCopy(userId);
+    return await encryptWithPassphrase(JSON.stringify(material), passphrase, associatedData);
+  },
+
+  /**
+   * Decrypt keys encrypted with encryptIdentity and hold them
+   * @returns Handle to the held keys, for saveIdentity, and their public details
+   * @throws If the passphrase is wrong or the data was modified
+   */
+  async decryptIdentity(
+    encrypted: PassphraseEncrypted,
+    passphrase: string,
+    associatedData: string
+  ): Promise<IdentitySummary & { handle: string }> {
+    const material: IdentityKeyMaterial = JSON.parse(
+      await decryptWithPassphrase(encrypted, passphrase, associatedData)
+    );
+    return { ...(await summarizeIdentity(material)), handle: holdIdentity({ material }) };
+  },
+
+  /**
+   * Load the user's identity and signing keys from IndexedDB into the worker,
+   * migrating keys stored by older versions first
+   * @returns The current identity key's type (null if this device has none) and
+   *   whether a signing key is available
+   */
+  async loadIdentity(userId: string): Promise<{ keyType: KeyType | null; hasSigningKey: boolean }> {
+    await migrateStoredKeys();
+    await migrateSessionKeys();
+
+    const storedKey = await retrievePrivateKey(userId);
+    const signingKey = await retrieveSigningKey(userId);
+    identity = {
+      userId,
+      privateKeys: storedKey ? identityPrivateKeys(storedKey) : [],
+      signingKey,
+    };
+    return { keyType: storedKey?.keyType ?? null, hasSigningKey: !!signingKey };
+  },
+
+  /**
+   * Load this browser's stored device key for the user
+   * @returns Its device id, or null if none has been created
+   */
+  async loadDeviceKey(userId: string): Promise<string | null> {
+    const local = await getRecord<{ userId: string; id: string; privateKey: CryptoKey }>(
+      'devices',
+      userId
+    );
+    device = local ? { id: local.id, privateKey: local.privateKey } : null;
+    return device?.id ?? null;
+  },
+
+  /**
+   * Create and store a new non-extractable device key for the user, replacing any earlier one
+   * @returns The new device id and its PEM public key, for registration
+   */
+  async createDeviceKey(userId: string): Promise<{ id: string; publicKey: string }> {
+    const keyPair = await generateECKeyPair();
+    const id = globalThis.crypto.randomUUID();
+    await putRecord('devices', { userId, id, privateKey: keyPair.privateKey });
+    device = { id, privateKey: keyPair.privateKey };
+    return { id, publicKey: await exportPublicKey(keyPair.publicKey) };
+  },
+
+  /**
+   * Forget all loaded keys (on sign-out); the keys stay stored in IndexedDB
+   */
+  async clearKeys(): Promise<void> {
+    identity = null;
+    device = null;
+    senderKeys.clear();
+    heldIdentities.clear();
+    exportableIdentities.clear();
+  },
+
+  async setPaddingPolicy(policy: PaddingPolicy): Promise<void> {
+    setPaddingPolicy(policy);
+  },
+
+  async encryptMessage(
+    message: string,
+    context: { messageId: string; senderId: string; recipientId: string },
+    recipients: MessageRecipient[]
+  ) {
+    return await encryptMessage(message, context, recipients);
+  },
+
+  async encryptDeviceMessage(
+    message: string,
+    context: { messageId: string; senderId: string; recipientId: string; senderDeviceId: string },
+    identities: MessageRecipient[],
+    devices: DeviceRecipient[]
+  ) {
+    return await encryptDeviceMessage(message, context, identities, devices);
+  },
+
+  /**
+   * Decrypt a stored message with the loaded keys
+   * @param senderDevice - Owner and verified bundle of the device a ratchet message names
+   * @returns Plain text, or null if the message carries no key for this user or device
+   */
+  async decryptMessage(message: EncryptedMessage, senderDevice: SenderDevice | null = null): Promise<string | null> {
+    if (!identity) throw new Error('No keys loaded');
+    return await decryptSessionMessage(
+      message,
+      identity.userId,
+      identity.privateKeys,
+      device ?? undefined,
+      senderDevice
+    );
+  },
+
+  /**
+   * Create a sender key for a conversation and encrypt it to each member
+   * @param recipients - Members to distribute it to, including the user themselves
+   * @returns One distribution per recipient, to store in `sender_keys`
+   */
+  async createSenderKey(
+    conversationId: string,
+    recipients: MessageRecipient[]
+  ): Promise<SenderKeyDistribution[]> {
+    if (!identity) throw new Error('No keys loaded');
+    const senderKey = generateSenderKey(conversationId, identity.userId);
+    senderKeys.set(senderKeyCacheKey(conversationId, identity.userId, senderKey.id), senderKey);
+    return await Promise.all(recipients.map((recipient) => sealSenderKey(senderKey, recipient)));
+  },
+
+  /**
+   * Encrypt an existing sender key to further members
+   * @param ownCopy - The user's own copy of the sender key
+   */
+  async distributeSenderKey(
+    ownCopy: SenderKeyDistribution,
+    recipients: MessageRecipient[]
+  ): Promise<SenderKeyDistribution[]> {
+    const senderKey = await loadSenderKey(ownCopy);
+    return await Promise.all(recipients.map((recipient) => sealSenderKey(senderKey, recipient)));
+  },
+
+  /**
+   * Encrypt a group message under the user's sender key
+   * @param ownCopy - The user's own copy of their current sender key
+   */
+  async encryptGroupMessage(
+    message: string,
+    context: { messageId: string; senderId: string; conversationId: string },
+    ownCopy: SenderKeyDistribution
+  ) {
+    return await encryptGroupMessage(message, context, await loadSenderKey(ownCopy));
+  },
+
+  /**
+   * Decrypt a group message
+   * @param distribution - The user's copy of the sender key named in the message
+   */
+  async decryptGroupMessage(message: EncryptedMessage, distribution: SenderKeyDistribution): Promise<string> {
+    return await decryptGroupMessage(message, await loadSenderKey(distribution));
+  },
+
+  async encryptFile(file: Blob, associatedData?: Uint8Array) {
+    return await encryptFile(file, associatedData);
+  },
+
+  async decryptFile(
+    encrypted: Blob,
+    key: string,
+    digest: string,
+    associatedData?: Uint8Array,
+    type?: string
+  ): Promise<Blob> {
+    return await decryptFile(encrypted, key, digest, associatedData, type);
+  },
+
+  async signMessage(fields: SignedMessageFields): Promise<string> {
+    return await signMessage(fields, requireSigningKey());
+  },
+
+  async signData(data: Uint8Array): Promise<string> {
+    return await signData(data, requireSigningKey());
+  },
+
+  /**
+   * Verify a message signature against the sender's PEM signing public key
+   */
+  async verifyMessageSignature(
+    fields: SignedMessageFields,
+    signature: string,
+    signingPublicKey: string
+  ): Promise<boolean> {
+    return await verifyMessageSignature(fields, signature, await importSigningPublicKey(signingPublicKey));
+  },
+
+  /**
+   * This device's prekey bundle, signed with the loaded signing key; prekeys are
+   * generated on first use
+   * @returns Bundle fields to publish, and whether the prekeys are new
+   */
+  async signedPrekeyBundle(deviceId: string): Promise<{
+    isNew: boolean;
+    identityKey: string;
+    signedPreKeyId: number;
+    signedPreKey: string;
+    signature: string;
+  }> {
+    const signingKey = requireSigningKey();
+    const existing = await getLocalPrekeys(deviceId);
+    const prekeys = existing ?? (await generatePrekeys(deviceId));
+    return {
+      isNew: !existing,
+      identityKey: prekeys.identityKey.publicKey,
+      signedPreKeyId: prekeys.signedPreKeyId,
+      signedPreKey: prekeys.signedPreKey.publicKey,
+      signature: await signPrekeyBundle(prekeys, signingKey),
+    };
+  },
+
+  async generateOneTimePrekeys(deviceId: string): Promise<{ keyId: number; publicKey: string }[]> {
+    return await generateOneTimePrekeys(deviceId);
+  },
+
+  async hasLocalPrekeys(deviceId: string): Promise<boolean> {
+    return !!(await getLocalPrekeys(deviceId));
+  },
+
+  async hasSession(ownerId: string, peerId: string): Promise<boolean> {
+    return await hasSession(ownerId, peerId);
+  },
+
+  /**
+   * Run X3DH with a peer device's bundle; the caller verifies the bundle's signature
+   */
+  async initiateSession(ownerId: string, peerId: string, bundle: PrekeyBundle): Promise<void> {
+    await initiateSession(ownerId, peerId, bundle);
+  },
+};
+
+export type CryptoWorkerApi = typeof api;
+
+/**
+ * Request posted to the worker
+ */
+export interface CryptoWorkerRequest {
+  id: number;
+  method: keyof CryptoWorkerApi;
+  args: unknown[];
+}
+
+/**
+ * Reply to a request: its result, or the error it failed with
+ */
+export type CryptoWorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: { name: string; message: string } };
+
+self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const { id, method, args } = event.data;
+  try {
+    const handler = api[method] as (...args: unknown[]) => Promise<unknown>;
+    if (!handler) throw new Error(`Unknown crypto worker method ${method}`);
+    const result = await handler(...args);
+    self.postMessage({ id, result } satisfies CryptoWorkerResponse);
+  } catch (err) {
+    const error =
+      err instanceof Error
+        ? { name: err.name, message: err.message }
+        : { name: 'Error', message: String(err) };
+    self.postMessage({ id, error } satisfies CryptoWorkerResponse);
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * Typed bridge to the crypto worker (./crypto.worker)
+ * Every worker method is exposed as an async function of the same name and
+ * signature; arguments and results are structured-cloned across the boundary.
+ */
+
+import type { CryptoWorkerApi, CryptoWorkerRequest, CryptoWorkerResponse } from './crypto.worker';
+
+type CryptoWorkerClient = {
+  [Method in keyof CryptoWorkerApi]: (
+    ...args: Parameters<CryptoWorkerApi[Method]>
+  ) => Promise<Awaited<ReturnType<CryptoWorkerApi[Method]>>>;
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+// Start the worker on first use
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./crypto.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+
+      if ('error' in response) {
+        const error = new Error(response.error.message);
+        error.name = response.error.name;
+        request.reject(error);
+      } else {
+        request.resolve(response.result);
+      }
+    };
+    worker.onerror = (event) => {
+      // The worker failed to load or crashed; fail everything waiting on it
+      console.error('Crypto worker error:', event.message);
+      for (const request of pending.values()) {
+        request.reject(new Error('The crypto worker stopped unexpectedly'));
+      }
+      pending.clear();
+    };
+  }
+  return worker;
+}
+
+function call(method: keyof CryptoWorkerApi, args: unknown[]): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, method, args } satisfies CryptoWorkerRequest);
+  });
+}
+
+export const cryptoWorker = new Proxy({} as CryptoWorkerClient, {
+  get: (_target, method) =>
+    // Not a thenable, so the client can be returned from async functions
+    typeof method === 'string' && method !== 'then'
+      ? (...args: unknown[]) => call(method as keyof CryptoWorkerApi, args)
+      : undefined,
+});
@@ -0,0 +1,291 @@
+/**
+ * Per-browser device keys registered in Supabase
+ * Every browser a user signs in from gets its own X25519 key, signed with the
+ * account's signing key; senders encrypt the message key to all active devices
+ * of both parties whose registration verifies.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  decodeEnvelope,
+  DEVICE_ENVELOPE_VERSION,
+  EncryptedMessage,
+  importPublicKey,
+  importSigningPublicKey,
+  verifyData,
+} from './crypto';
+import { cryptoWorker } from './cryptoWorker';
+import { ensureSession, fetchSenderBundle } from './prekeys';
+import { DeviceRecipient, SenderDevice } from './session';
+
+// Owners of devices looked up so far; a device never changes owner
+const deviceOwners = new Map<string, string>();
+
+/**
+ * Registered device as stored in the `devices` table
+ */
+export interface Device {
+  id: string;
+  user_id: string;
+  name: string;
+  public_key: string;
+  created_at: string | null;
+  last_seen_at: string | null;
+  revoked: boolean;
+  // Owner's signature over the registration, null until signed
+  signature: string | null;
+}
+
+/**
+ * This browser's device, with its revocation state on the server.
+ * The device private key itself stays in the crypto worker.
+ */
+export interface LocalDevice {
+  id: string;
+  revoked: boolean;
+}
+
+// Short description of this browser, e.g. "Firefox on Linux"
+function defaultDeviceName(): string {
+  const userAgent = navigator.userAgent;
+  const browser =
+    [
+      ['Edg/', 'Edge'],
+      ['Firefox/', 'Firefox'],
+      ['Chrome/', 'Chrome'],
+      ['Safari/', 'Safari'],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? 'Browser';
+  const os =
+    [
+      ['Android', 'Android'],
+      ['iPhone', 'iOS'],
+      ['iPad', 'iPadOS'],
+      ['Windows', 'Windows'],
+      ['Mac OS', 'macOS'],
+      ['Linux', 'Linux'],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? 'unknown system';
+  return `${browser} on ${os}`;
+}
+
+// Bytes a device registration signature covers
+function encodeDeviceRegistration(userId: string, deviceId: string, publicKey: string): Uint8Array {
+  return new TextEncoder().encode(`device-registration\n${userId}\n${deviceId}\n${publicKey}`);
+}
+
+/**
+ * Whether a device's registration is signed with its owner's signing key
+ */
+export async function isDeviceSigned(
+  device: Pick<Device, 'id' | 'user_id' | 'public_key' | 'signature'>,
+  signingPublicKey: string | null
+): Promise<boolean> {
+  if (!signingPublicKey || !device.signature) return false;
+  try {
+    return await verifyData(
+      encodeDeviceRegistration(device.user_id, device.id, device.public_key),
+      device.signature,
+      await importSigningPublicKey(signingPublicKey)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Sign a registration with the loaded signing key. Null if that key is not the one the
+// profile publishes (e.g. another device rotated it), as peers would reject the signature.
+async function signDeviceRegistration(
+  device: Pick<Device, 'id' | 'user_id' | 'public_key'>,
+  signingPublicKey: string | null
+): Promise<string | null> {
+  const signature = await cryptoWorker.signData(
+    encodeDeviceRegistration(device.user_id, device.id, device.public_key)
+  );
+  if (!(await isDeviceSigned({ ...device, signature }, signingPublicKey))) {
+    console.warn('The signing key on this device is not your current one; contacts will not encrypt to it');
+    return null;
+  }
+  return signature;
+}
+
+/**
+ * Register this browser as a device of the user on first sign-in, or mark it
+ * as seen. The device key is non-extractable and never leaves this browser.
+ * @param canSign - Whether the crypto worker holds a signing key; the registration
+ *   is signed, or signed again after a rotation, when it does
+ */
+export async function registerDevice(userId: string, canSign: boolean): Promise<LocalDevice> {
+  const localId = await cryptoWorker.loadDeviceKey(userId);
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('signing_public_key')
+    .eq('id', userId)
+    .single();
+  if (profileError) throw profileError;
+  const signingPublicKey = profile.signing_public_key;
+
+  if (localId) {
+    const { data: device, error } = await supabase
+      .from('devices')
+      .select('id, user_id, public_key, signature, revoked')
+      .eq('id', localId)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (device) {
+      if (!device.revoked) {
+        const signature =
+          canSign && !(await isDeviceSigned(device, signingPublicKey))
+            ? await signDeviceRegistration(device, signingPublicKey)
+            : null;
+        const { error: updateError } = await supabase
+          .from('devices')
+          .update({ last_seen_at: new Date().toISOString(), ...(signature ? { signature } : {}) })
+          .eq('id', localId);
+        if (updateError) throw updateError;
+      }
+      return { id: localId, revoked: device.revoked };
+    }
+    // The server no longer knows this device; register it again under a new id
+  }
+
+  // A key whose registration fails is replaced on the next attempt, like an unknown one
+  const { id, publicKey } = await cryptoWorker.createDeviceKey(userId);
+  const registration = { id, user_id: userId, public_key: publicKey };
+  const { error } = await supabase.from('devices').insert({
+    ...registration,
+    name: defaultDeviceName(),
+    signature: canSign ? await signDeviceRegistration(registration, signingPublicKey) : null,
+  });
+  if (error) throw error;
+
+  return { id, revoked: false };
+}
+
+/**
+ * All devices of a user, revoked ones included, oldest first
+ */
+export async function listDevices(userId: string): Promise<Device[]> {
+  const { data, error } = await supabase
+    .from('devices')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Active devices of the given users whose registration is signed by their owner.
+ * Unsigned devices may have been added by someone else, so they are left out.
+ * @param signingPublicKeys - Signing key of each user, by user id
+ */
+export async function fetchActiveDevices(
+  signingPublicKeys: Record<string, string | null>
+): Promise<Device[]> {
+  const { data, error } = await supabase
+    .from('devices')
+    .select('*')
+    .in('user_id', Object.keys(signingPublicKeys))
+    .eq('revoked', false);
+  if (error) throw error;
+
+  const devices: Device[] = [];
+  for (const device of data || []) {
+    if (await isDeviceSigned(device, signingPublicKeys[device.user_id] ?? null)) {
+      devices.push(device);
+    } else {
+      console.warn('Leaving out device with an unverified registration:', device.id);
+    }
+  }
+  return devices;
+}
+
+/**
+ * The user a device is registered to, or null if the server does not know it
+ */
+export async function fetchDeviceOwner(deviceId: string): Promise<string | null> {
+  const cached = deviceOwners.get(deviceId);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('devices')
+    .select('user_id')
+    .eq('id', deviceId)
+    .maybeSingle();
+  if (error) throw error;
+  if (data) deviceOwners.set(deviceId, data.user_id);
+  return data?.user_id ?? null;
+}
+
+/**
+ * Look up the device a ratchet-encrypted message to this device claims to come
+ * from, so the crypto worker can check it against the sender
+ * @param ownDeviceId - This browser's device
+ * @param signingPublicKey - Sender's signing key, which authenticates a session init
+ * @returns Null unless the message carries a ratchet copy for this device
+ */
+export async function resolveSenderDevice(
+  message: EncryptedMessage,
+  ownDeviceId: string,
+  signingPublicKey: string | null
+): Promise<SenderDevice | null> {
+  if (message.envelopeVersion !== DEVICE_ENVELOPE_VERSION) return null;
+  const { header } = decodeEnvelope(message.ciphertext);
+  const ratchet = header.ratchets?.[ownDeviceId];
+  if (!ratchet || !header.senderDeviceId) return null;
+
+  return {
+    id: header.senderDeviceId,
+    userId: await fetchDeviceOwner(header.senderDeviceId),
+    bundle: ratchet.init ? await fetchSenderBundle(header.senderDeviceId, signingPublicKey) : null,
+  };
+}
+
+export async function renameDevice(deviceId: string, name: string): Promise<void> {
+  const { error } = await supabase.from('devices').update({ name }).eq('id', deviceId);
+  if (error) throw error;
+}
+
+/**
+ * Revoke a device: it stops receiving message keys and its prekeys are withdrawn.
+ * Revocation is permanent.
+ */
+export async function revokeDevice(deviceId: string): Promise<void> {
+  const { error } = await supabase.from('devices').update({ revoked: true }).eq('id', deviceId);
+  if (error) throw error;
+
+  const { error: bundleError } = await supabase
+    .from('prekey_bundles')
+    .delete()
+    .eq('device_id', deviceId);
+  if (bundleError) throw bundleError;
+
+  const { error: prekeyError } = await supabase
+    .from('one_time_prekeys')
+    .delete()
+    .eq('device_id', deviceId);
+  if (prekeyError) throw prekeyError;
+}
+
+/**
+ * Prepare the devices a message is encrypted for, opening device sessions where possible
+ * @param ownDevice - The sending device; it gets a copy wrapped to its own key
+ * @param devices - Active, signed devices of both parties, from fetchActiveDevices
+ * @param signingPublicKeys - Signing key of each device owner, by user id
+ */
+export async function prepareDeviceRecipients(
+  ownDevice: LocalDevice,
+  devices: Device[],
+  signingPublicKeys: Record<string, string | null>
+): Promise<DeviceRecipient[]> {
+  return await Promise.all(
+    devices.map(async (device) => ({
+      id: device.id,
+      publicKey: await importPublicKey(device.public_key, 'ec'),
+      hasSession:
+        device.id !== ownDevice.id &&
+        (await ensureSession(ownDevice.id, device.id, signingPublicKeys[device.user_id] ?? null)),
+    }))
+  );
+}
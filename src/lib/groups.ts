@@ -0,0 +1,411 @@
+/**
+ * Group conversations in Supabase
+ * Conversations and their membership change only through RPCs that check the
+ * caller's role. Sender keys are created and encrypted in the crypto worker; this
+ * module stores their per-member copies in `sender_keys` and looks them up again.
+ * Adding or removing a member bumps the conversation's key epoch, after which every
+ * sender starts a new sender key, and members only see messages sent after they joined.
+ * Names, topics and avatars are encrypted to the members' identity keys as one
+ * metadata envelope, re-encrypted whenever membership changes.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { importPublicKey, KeyType, MessageRecipient } from './crypto';
+import { cryptoWorker } from './cryptoWorker';
+import { groupMessageSenderKeyId, SenderKeyDistribution } from './senderKeys';
+
+export type ConversationRole = 'owner' | 'admin' | 'member';
+
+export interface ConversationMember {
+  userId: string;
+  role: ConversationRole;
+  joinedAt: string;
+}
+
+/**
+ * Decrypted conversation settings
+ */
+export interface ConversationMetadata {
+  name: string;
+  topic?: string;
+  // Small image as a data URL
+  avatar?: string;
+}
+
+/**
+ * Metadata envelope as stored in `conversations.metadata`; its recipient is the conversation
+ */
+export interface EncryptedMetadata {
+  id: string;
+  senderId: string;
+  envelopeVersion: number;
+  ciphertext: string;
+  iv: string;
+  encryptedKeys: Record<string, string>;
+}
+
+/**
+ * A group conversation the user belongs to
+ */
+export interface Conversation {
+  id: string;
+  // Plaintext name of a group created before metadata was encrypted
+  legacyName: string | null;
+  metadata: EncryptedMetadata | null;
+  createdBy: string | null;
+  createdAt: string;
+  // Bumped whenever a member joins, is removed or leaves
+  keyEpoch: number;
+  members: ConversationMember[];
+}
+
+const CONVERSATION_COLUMNS =
+  'id, name, metadata, created_by, created_at, key_epoch, conversation_members(user_id, role, joined_at)';
+
+type ConversationRow = Pick<
+  Tables<'conversations'>,
+  'id' | 'name' | 'metadata' | 'created_by' | 'created_at' | 'key_epoch'
+> & {
+  conversation_members: Pick<Tables<'conversation_members'>, 'user_id' | 'role' | 'joined_at'>[];
+};
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    legacyName: row.name,
+    metadata: row.metadata as unknown as EncryptedMetadata | null,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    keyEpoch: row.key_epoch,
+    members: row.conversation_members
+      .map((member) => ({
+        userId: member.user_id,
+        role: member.role as ConversationRole,
+        joinedAt: member.joined_at,
+      }))
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt)),
+  };
+}
+
+/**
+ * Conversations the user is a member of, newest first
+ */
+export async function fetchConversations(): Promise<Conversation[]> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []).map(toConversation);
+}
+
+/**
+ * The conversation's current members and key epoch
+ * @returns The conversation, or null if the user is no longer a member
+ */
+export async function fetchConversation(conversationId: string): Promise<Conversation | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('id', conversationId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toConversation(data) : null;
+}
+
+export function memberRole(conversation: Conversation, userId: string): ConversationRole | null {
+  return conversation.members.find((member) => member.userId === userId)?.role ?? null;
+}
+
+/**
+ * Whether a member with the given role may invite people
+ */
+export function canInvite(role: ConversationRole | null): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * Whether a member with the given role may change the name, topic and avatar,
+ * mirroring update_conversation_metadata
+ */
+export function canEditSettings(role: ConversationRole | null): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * Whether a member with the given role may remove a member with the target role,
+ * mirroring remove_conversation_member
+ */
+export function canRemove(role: ConversationRole | null, targetRole: ConversationRole): boolean {
+  if (targetRole === 'owner') return false;
+  return role === 'owner' || (role === 'admin' && targetRole === 'member');
+}
+
+/**
+ * Identity public keys of the given users to encrypt to. Users whose key is
+ * revoked or not yet published are left out until they set up a new key.
+ */
+export async function fetchMemberRecipients(userIds: string[]): Promise<MessageRecipient[]> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, public_key, key_type, key_revoked_at')
+    .in('id', userIds);
+  if (error) throw error;
+
+  return await Promise.all(
+    (data ?? [])
+      .filter((profile) => profile.public_key && !profile.key_revoked_at)
+      .map(async (profile) => ({
+        id: profile.id,
+        publicKey: await importPublicKey(profile.public_key, profile.key_type as KeyType),
+      }))
+  );
+}
+
+async function encryptMetadata(
+  conversationId: string,
+  metadata: ConversationMetadata,
+  senderId: string,
+  recipients: MessageRecipient[]
+): Promise<EncryptedMetadata> {
+  const id = globalThis.crypto.randomUUID();
+  const { ciphertext, iv, encryptedKeys, envelopeVersion } = await cryptoWorker.encryptMessage(
+    JSON.stringify(metadata),
+    { messageId: id, senderId, recipientId: conversationId },
+    recipients
+  );
+  return { id, senderId, envelopeVersion, ciphertext, iv, encryptedKeys };
+}
+
+/**
+ * Decrypt a conversation's metadata with the keys loaded in the crypto worker
+ * @returns The metadata (just the name for groups from before encryption), or null
+ *   if the group has none or the user holds no copy of its key
+ */
+export async function decryptConversationMetadata(
+  conversation: Conversation
+): Promise<ConversationMetadata | null> {
+  const encrypted = conversation.metadata;
+  if (!encrypted) {
+    return conversation.legacyName ? { name: conversation.legacyName } : null;
+  }
+
+  const plaintext = await cryptoWorker.decryptMessage({
+    id: encrypted.id,
+    senderId: encrypted.senderId,
+    recipientId: conversation.id,
+    envelopeVersion: encrypted.envelopeVersion,
+    ciphertext: encrypted.ciphertext,
+    iv: encrypted.iv,
+    encryptedKey: '',
+    encryptedKeys: encrypted.encryptedKeys,
+  });
+  if (plaintext === null) return null;
+
+  const parsed = JSON.parse(plaintext);
+  if (typeof parsed?.name !== 'string') {
+    throw new Error('Malformed conversation metadata');
+  }
+  return {
+    name: parsed.name,
+    topic: typeof parsed.topic === 'string' ? parsed.topic : undefined,
+    avatar: typeof parsed.avatar === 'string' ? parsed.avatar : undefined,
+  };
+}
+
+/**
+ * Create a group with the current user as owner and the given users as members
+ * @returns The new conversation's id
+ */
+export async function createConversation(
+  metadata: ConversationMetadata,
+  memberIds: string[],
+  userId: string
+): Promise<string> {
+  const conversationId = globalThis.crypto.randomUUID();
+  const recipients = await fetchMemberRecipients([userId, ...memberIds]);
+  const encrypted = await encryptMetadata(conversationId, metadata, userId, recipients);
+
+  const { data, error } = await supabase.rpc('create_conversation', {
+    conversation: conversationId,
+    member_ids: memberIds,
+    encrypted_metadata: encrypted as unknown as Json,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Encrypt new metadata to the conversation's current members and save it
+ */
+export async function updateConversationMetadata(
+  conversationId: string,
+  metadata: ConversationMetadata,
+  userId: string
+): Promise<void> {
+  const conversation = await fetchConversation(conversationId);
+  if (!conversation) throw new Error('Not a member of this conversation');
+
+  const recipients = await fetchMemberRecipients(conversation.members.map((member) => member.userId));
+  const encrypted = await encryptMetadata(conversationId, metadata, userId, recipients);
+  const { error } = await supabase.rpc('update_conversation_metadata', {
+    conversation: conversationId,
+    encrypted_metadata: encrypted as unknown as Json,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Re-encrypt the current metadata after members joined or left, so new members can
+ * read it and former members cannot read later changes
+ */
+export async function resealConversationMetadata(conversationId: string, userId: string): Promise<void> {
+  const conversation = await fetchConversation(conversationId);
+  const metadata = conversation && (await decryptConversationMetadata(conversation));
+  if (!metadata) return;
+  await updateConversationMetadata(conversationId, metadata, userId);
+}
+
+export async function inviteMember(conversationId: string, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('add_conversation_member', {
+    conversation: conversationId,
+    member: userId,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Remove another member; their sender keys stop being used from the next message on
+ */
+export async function removeMember(conversationId: string, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('remove_conversation_member', {
+    conversation: conversationId,
+    member: userId,
+  });
+  if (error) throw error;
+}
+
+export async function leaveConversation(conversationId: string): Promise<void> {
+  const { error } = await supabase.rpc('leave_conversation', { conversation: conversationId });
+  if (error) throw error;
+}
+
+export async function setMemberRole(
+  conversationId: string,
+  userId: string,
+  role: Exclude<ConversationRole, 'owner'>
+): Promise<void> {
+  const { error } = await supabase.rpc('set_conversation_member_role', {
+    conversation: conversationId,
+    member: userId,
+    new_role: role,
+  });
+  if (error) throw error;
+}
+
+function toDistribution(row: Tables<'sender_keys'>): SenderKeyDistribution {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    keyId: row.key_id,
+    senderId: row.sender_id,
+    recipientId: row.recipient_id,
+    envelopeVersion: row.envelope_version,
+    ciphertext: row.ciphertext,
+    iv: row.iv,
+    encryptedKey: '',
+    encryptedKeys: row.encrypted_keys as Record<string, string>,
+  };
+}
+
+async function storeDistributions(distributions: SenderKeyDistribution[], epoch: number): Promise<void> {
+  if (distributions.length === 0) return;
+  const { error } = await supabase.from('sender_keys').insert(
+    distributions.map((distribution) => ({
+      id: distribution.id,
+      conversation_id: distribution.conversationId,
+      sender_id: distribution.senderId,
+      recipient_id: distribution.recipientId,
+      key_id: distribution.keyId,
+      ciphertext: distribution.ciphertext,
+      iv: distribution.iv,
+      encrypted_keys: distribution.encryptedKeys,
+      envelope_version: distribution.envelopeVersion,
+      epoch,
+    }))
+  );
+  if (error) throw error;
+}
+
+/**
+ * The user's sender key for the conversation's current key epoch, created on first
+ * use in the epoch; members that have not received it yet get their copy now. Joining
+ * starts a new epoch, so no member receives a key used before they joined.
+ * @param conversation - The conversation as just fetched, so a removal is never missed
+ * @param members - Every member, including the user, with their identity public keys
+ * @returns The user's own copy, for encryptGroupMessage
+ */
+export async function ensureSenderKey(
+  conversation: Conversation,
+  userId: string,
+  members: MessageRecipient[]
+): Promise<SenderKeyDistribution> {
+  const { data, error } = await supabase
+    .from('sender_keys')
+    .select('*')
+    .eq('conversation_id', conversation.id)
+    .eq('sender_id', userId)
+    .eq('epoch', conversation.keyEpoch)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const ownRow = data?.find((row) => row.recipient_id === userId);
+  if (!ownRow) {
+    const distributions = await cryptoWorker.createSenderKey(conversation.id, members);
+    await storeDistributions(distributions, conversation.keyEpoch);
+    return distributions.find((distribution) => distribution.recipientId === userId)!;
+  }
+
+  const ownCopy = toDistribution(ownRow);
+  const holders = new Set(
+    data.filter((row) => row.key_id === ownCopy.keyId).map((row) => row.recipient_id)
+  );
+  const missing = members.filter((member) => !holders.has(member.id));
+  if (missing.length > 0) {
+    await storeDistributions(
+      await cryptoWorker.distributeSenderKey(ownCopy, missing),
+      conversation.keyEpoch
+    );
+  }
+  return ownCopy;
+}
+
+/**
+ * Sender keys of a conversation addressed to the user
+ */
+export async function fetchSenderKeys(
+  conversationId: string,
+  userId: string
+): Promise<SenderKeyDistribution[]> {
+  const { data, error } = await supabase
+    .from('sender_keys')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .eq('recipient_id', userId);
+  if (error) throw error;
+  return (data ?? []).map(toDistribution);
+}
+
+/**
+ * The user's copy of the sender key a group message was encrypted under
+ */
+export function findSenderKey(
+  distributions: SenderKeyDistribution[],
+  message: { senderId: string; ciphertext: string }
+): SenderKeyDistribution | undefined {
+  const keyId = groupMessageSenderKeyId(message);
+  return distributions.find(
+    (distribution) => distribution.senderId === message.senderId && distribution.keyId === keyId
+  );
+}
@@ -0,0 +1,436 @@
+/**
+ * Identity key material: generation, saving, exporting and passphrase protection
+ *
+ * Identity keys are stored as non-extractable CryptoKeys only. Their PKCS#8 form
+ * exists while keys are created, restored, imported or rotated, and the crypto worker
+ * keeps it in memory until a reload so the keys can be backed up; nothing the page can
+ * decrypt is ever stored. Only the crypto worker imports this module: key material is
+ * generated and decrypted there, and leaves it only encrypted under a passphrase.
+ */
+
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  computeKeyId,
+  exportPrivateKey,
+  exportPublicKey,
+  generateECKeyPair,
+  generateSigningKeyPair,
+  importPrivateKey,
+  importPublicKey,
+  importSigningPrivateKey,
+  KeyType,
+  retrievePrivateKey,
+  retrieveSigningKey,
+  StoredIdentityKey,
+  storePrivateKey,
+  storeSigningKey,
+} from './crypto';
+import { getAllRecords, getRecord, putRecord } from './keyStore';
+
+/**
+ * Exportable form of a user's identity keys (base64 PKCS#8)
+ */
+export interface IdentityKeyMaterial {
+  keyType: KeyType;
+  privateKey: string;
+  // RSA key kept after upgrading to an EC identity
+  legacyPrivateKey?: string;
+  // Keys replaced by rotations, newest first
+  retiredKeys?: RetiredKeyMaterial[];
+  signingKey?: string;
+  createdAt: string;
+}
+
+export interface RetiredKeyMaterial {
+  keyType: KeyType;
+  privateKey: string;
+  retiredAt: string;
+}
+
+/**
+ * Newly generated key material with its PEM public keys
+ */
+export interface GeneratedIdentity {
+  material: IdentityKeyMaterial;
+  publicKey: string;
+  signingPublicKey: string;
+}
+
+/**
+ * A user's identity keys as stored on this device
+ */
+export interface StoredIdentity {
+  identityKey: StoredIdentityKey;
+  signingKey: CryptoKey | null;
+}
+
+/**
+ * New keys stored by replaceStoredIdentity, with the keys they replaced
+ */
+export interface ReplacedIdentity {
+  keyType: KeyType;
+  publicKey: string;
+  signingPublicKey: string;
+  // Extractable copy of the new keys, null without one of the previous keys
+  material: IdentityKeyMaterial | null;
+  previous: StoredIdentity;
+}
+
+/**
+ * Public details of identity key material
+ */
+export interface IdentitySummary {
+  keyType: KeyType;
+  publicKey: string;
+  createdAt: string;
+}
+
+/**
+ * Data encrypted under a passphrase-derived key
+ */
+export interface PassphraseEncrypted {
+  salt: string;
+  iterations: number;
+  iv: string;
+  ciphertext: string;
+}
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+async function aesEncrypt(
+  key: CryptoKey,
+  plaintext: string,
+  associatedData: string
+): Promise<{ iv: string; ciphertext: string }> {
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await globalThis.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv: arrayBufferToBase64(iv), ciphertext: arrayBufferToBase64(ciphertext) };
+}
+
+async function aesDecrypt(
+  key: CryptoKey,
+  sealed: { iv: string; ciphertext: string },
+  associatedData: string
+): Promise<string> {
+  const plaintext = await globalThis.crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: base64ToArrayBuffer(sealed.iv),
+      additionalData: new TextEncoder().encode(associatedData),
+    },
+    key,
+    base64ToArrayBuffer(sealed.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Generate an X25519 identity key and an Ed25519 signing key
+ */
+export async function generateIdentity(): Promise<GeneratedIdentity> {
+  const keyPair = await generateECKeyPair(true);
+  const signingKeyPair = await generateSigningKeyPair('Ed25519', true);
+  return {
+    material: {
+      keyType: 'ec',
+      privateKey: await exportPrivateKey(keyPair.privateKey),
+      signingKey: await exportPrivateKey(signingKeyPair.privateKey),
+      createdAt: new Date().toISOString(),
+    },
+    publicKey: await exportPublicKey(keyPair.publicKey),
+    signingPublicKey: await exportPublicKey(signingKeyPair.publicKey),
+  };
+}
+
+// Key material of a new identity with the keys it replaces kept: a rotation retires the
+// current identity key and an upgrade keeps an RSA key as the legacy key
+function succeedIdentity(
+  current: IdentityKeyMaterial,
+  next: IdentityKeyMaterial,
+  kind: 'rotate' | 'upgrade'
+): IdentityKeyMaterial {
+  const material = { ...current, ...next };
+  if (kind === 'upgrade') {
+    return { ...material, legacyPrivateKey: current.privateKey };
+  }
+  return {
+    ...material,
+    retiredKeys: [
+      { keyType: current.keyType, privateKey: current.privateKey, retiredAt: next.createdAt },
+      ...(current.retiredKeys ?? []),
+    ],
+  };
+}
+
+/**
+ * Store a new identity key and signing key for the user in place of the current ones.
+ * A rotation retires the current identity key and an upgrade keeps an RSA key as the
+ * legacy key, so older messages still decrypt. Only the stored CryptoKeys are needed.
+ * @param exportable - Extractable copy of the current keys, if still held; the new
+ *   keys get one too, so they can be backed up
+ * @returns null when upgrading an identity that is not RSA
+ * @throws If this device has no identity keys for the user
+ */
+export async function replaceStoredIdentity(
+  userId: string,
+  kind: 'rotate' | 'upgrade',
+  exportable: IdentityKeyMaterial | null
+): Promise<ReplacedIdentity | null> {
+  const previous = await loadStoredIdentity(userId);
+  if (!previous) throw new Error('No identity keys stored on this device');
+  const current = previous.identityKey;
+  if (kind === 'upgrade' && current.keyType !== 'rsa') return null;
+
+  const { material, publicKey, signingPublicKey } = await generateIdentity();
+  const next: StoredIdentityKey = {
+    privateKey: await importPrivateKey(material.privateKey, material.keyType),
+    keyType: material.keyType,
+    keyId: await privateKeyId(material.privateKey, material.keyType),
+  };
+  await storePrivateKey(
+    userId,
+    kind === 'upgrade'
+      ? {
+          ...next,
+          legacyPrivateKey: current.privateKey,
+          legacyKeyId: current.keyId,
+          retiredKeys: current.retiredKeys,
+        }
+      : {
+          ...next,
+          legacyPrivateKey: current.legacyPrivateKey,
+          legacyKeyId: current.legacyKeyId,
+          retiredKeys: [
+            {
+              keyId: current.keyId,
+              keyType: current.keyType,
+              privateKey: current.privateKey,
+              retiredAt: material.createdAt,
+            },
+            ...(current.retiredKeys ?? []),
+          ],
+        }
+  );
+  await storeSigningKey(userId, await importSigningPrivateKey(material.signingKey!));
+
+  return {
+    keyType: material.keyType,
+    publicKey,
+    signingPublicKey,
+    material: exportable ? succeedIdentity(exportable, material, kind) : null,
+    previous,
+  };
+}
+
+/**
+ * The user's identity keys stored on this device
+ * @returns null if there are none
+ */
+export async function loadStoredIdentity(userId: string): Promise<StoredIdentity | null> {
+  const identityKey = await retrievePrivateKey(userId);
+  if (!identityKey) return null;
+  return { identityKey, signingKey: await retrieveSigningKey(userId) };
+}
+
+/**
+ * Put back identity keys taken from loadStoredIdentity, e.g. after a failed rotation
+ */
+export async function restoreStoredIdentity(userId: string, stored: StoredIdentity): Promise<void> {
+  await storePrivateKey(userId, stored.identityKey);
+  if (stored.signingKey) {
+    await storeSigningKey(userId, stored.signingKey);
+  }
+}
+
+/**
+ * Public details of identity key material
+ */
+export async function summarizeIdentity(material: IdentityKeyMaterial): Promise<IdentitySummary> {
+  return {
+    keyType: material.keyType,
+    publicKey: await derivePublicKey(material.privateKey, material.keyType),
+    createdAt: material.createdAt,
+  };
+}
+
+/**
+ * Store identity keys on this device as non-extractable CryptoKeys; the key
+ * material itself is not kept
+ */
+export async function saveIdentity(userId: string, material: IdentityKeyMaterial): Promise<void> {
+  await storePrivateKey(userId, {
+    privateKey: await importPrivateKey(material.privateKey, material.keyType),
+    keyType: material.keyType,
+    keyId: await privateKeyId(material.privateKey, material.keyType),
+    legacyPrivateKey: material.legacyPrivateKey
+      ? await importPrivateKey(material.legacyPrivateKey, 'rsa')
+      : undefined,
+    legacyKeyId: material.legacyPrivateKey
+      ? await privateKeyId(material.legacyPrivateKey, 'rsa')
+      : undefined,
+    retiredKeys: await Promise.all(
+      (material.retiredKeys ?? []).map(async (retired) => ({
+        keyId: await privateKeyId(retired.privateKey, retired.keyType),
+        keyType: retired.keyType,
+        privateKey: await importPrivateKey(retired.privateKey, retired.keyType),
+        retiredAt: retired.retiredAt,
+      }))
+    ),
+  });
+  if (material.signingKey) {
+    await storeSigningKey(userId, await importSigningPrivateKey(material.signingKey));
+  }
+
+}
+
+/**
+ * Recompute the PEM public key belonging to a PKCS#8 identity private key
+ */
+export async function derivePublicKey(privateKey: string, keyType: KeyType): Promise<string> {
+  const algorithm =
+    keyType === 'ec' ? { name: 'X25519' } : { name: 'RSA-OAEP', hash: 'SHA-256' };
+  const key = await globalThis.crypto.subtle.importKey(
+    'pkcs8',
+    base64ToArrayBuffer(privateKey),
+    algorithm,
+    true,
+    keyType === 'ec' ? ['deriveBits'] : ['decrypt']
+  );
+
+  // The private JWK carries the public components alongside the secret ones
+  const jwk = await globalThis.crypto.subtle.exportKey('jwk', key);
+  const publicJwk: JsonWebKey =
+    keyType === 'ec'
+      ? { kty: jwk.kty, crv: jwk.crv, x: jwk.x }
+      : { kty: jwk.kty, alg: jwk.alg, n: jwk.n, e: jwk.e };
+  const publicKey = await globalThis.crypto.subtle.importKey(
+    'jwk',
+    publicJwk,
+    algorithm,
+    true,
+    keyType === 'ec' ? [] : ['encrypt']
+  );
+  return await exportPublicKey(publicKey);
+}
+
+// Key id of the public key belonging to a PKCS#8 identity private key
+async function privateKeyId(privateKey: string, keyType: KeyType): Promise<string> {
+  return await computeKeyId(await importPublicKey(await derivePublicKey(privateKey, keyType), keyType));
+}
+
+async function derivePassphraseKey(
+  passphrase: string,
+  salt: ArrayBuffer,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await globalThis.crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return await globalThis.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt text under a key derived from a passphrase (PBKDF2-SHA256, random salt)
+ * @param associatedData - Context the ciphertext is bound to, e.g. the owner's user id
+ */
+export async function encryptWithPassphrase(
+  plaintext: string,
+  passphrase: string,
+  associatedData: string
+): Promise<PassphraseEncrypted> {
+  const salt = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  const key = await derivePassphraseKey(passphrase, salt.buffer, PBKDF2_ITERATIONS);
+  return {
+    salt: arrayBufferToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    ...(await aesEncrypt(key, plaintext, associatedData)),
+  };
+}
+
+/**
+ * Decrypt text encrypted with encryptWithPassphrase
+ * @throws If the passphrase is wrong, the data was modified or it was derived with
+ *   another PBKDF2 iteration count
+ */
+export async function decryptWithPassphrase(
+  encrypted: PassphraseEncrypted,
+  passphrase: string,
+  associatedData: string
+): Promise<string> {
+  // The count comes with the data; a low one would make the passphrase cheap to guess
+  if (encrypted.iterations !== PBKDF2_ITERATIONS) {
+    throw new Error('Unsupported key derivation parameters');
+  }
+  const key = await derivePassphraseKey(
+    passphrase,
+    base64ToArrayBuffer(encrypted.salt),
+    encrypted.iterations
+  );
+  try {
+    return await aesDecrypt(key, encrypted, associatedData);
+  } catch {
+    throw new Error('Wrong passphrase or corrupted data');
+  }
+}
+
+/**
+ * Convert private keys stored as PKCS#8 strings (database versions before 4)
+ * into non-extractable CryptoKeys.
+ * Resumes on the next call if interrupted.
+ */
+export async function migrateStoredKeys(): Promise<void> {
+  const migration = await getRecord<{ pending: boolean }>('meta', 'keyMigration');
+  if (!migration?.pending) return;
+
+  const signingKeys = new Map(
+    (await getAllRecords<{ userId: string; signingKey: CryptoKey | string }>('signingKeys')).map(
+      (record) => [record.userId, record.signingKey]
+    )
+  );
+
+  const identities = await getAllRecords<{
+    userId: string;
+    privateKey: CryptoKey | string;
+    keyType?: KeyType;
+    legacyPrivateKey?: CryptoKey | string;
+  }>('keys');
+  for (const record of identities) {
+    if (typeof record.privateKey !== 'string') continue;
+
+    const signingKey = signingKeys.get(record.userId);
+    await saveIdentity(record.userId, {
+      keyType: record.keyType ?? 'rsa',
+      privateKey: record.privateKey,
+      legacyPrivateKey:
+        typeof record.legacyPrivateKey === 'string' ? record.legacyPrivateKey : undefined,
+      signingKey: typeof signingKey === 'string' ? signingKey : undefined,
+      // The original creation time was never recorded for these keys
+      createdAt: new Date().toISOString(),
+    });
+    signingKeys.delete(record.userId);
+  }
+
+  for (const [userId, signingKey] of signingKeys) {
+    if (typeof signingKey === 'string') {
+      await storeSigningKey(userId, await importSigningPrivateKey(signingKey));
+    }
+  }
+
+  await putRecord('meta', { name: 'keyMigration', pending: false });
+}
@@ -0,0 +1,113 @@
+/**
+ * Passphrase-encrypted identity files for moving keys between browsers
+ * Public details stay readable so users can check which identity a file holds;
+ * the private keys are encrypted and bound to those details as associated data.
+ * The keys are encrypted and decrypted in the crypto worker, which holds them.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { computeFingerprint, importPublicKey, KeyType } from './crypto';
+import { cryptoWorker } from './cryptoWorker';
+import type { PassphraseEncrypted } from './identity';
+
+export const IDENTITY_FILE_FORMAT = 'encryptia-identity';
+export const IDENTITY_FILE_VERSION = 1;
+
+/**
+ * Contents of an exported identity file
+ */
+export interface IdentityFile {
+  format: typeof IDENTITY_FILE_FORMAT;
+  version: number;
+  userId: string;
+  keyType: KeyType;
+  publicKey: string;
+  fingerprint: string;
+  createdAt: string;
+  exportedAt: string;
+  // IdentityKeyMaterial as JSON, encrypted under the export passphrase
+  keys: PassphraseEncrypted;
+}
+
+function identityFileAssociatedData(file: Pick<IdentityFile, 'userId' | 'fingerprint'>): string {
+  return `identity-file:${file.userId}:${file.fingerprint}`;
+}
+
+/**
+ * Export this device's identity keys as a passphrase-encrypted JSON file
+ * @returns Serialized identity file
+ */
+export async function createIdentityFile(userId: string, passphrase: string): Promise<string> {
+  const identity = await cryptoWorker.describeIdentity(userId);
+  if (!identity) {
+    throw new Error(
+      'Keys can only be exported until the page is reloaded after they were created, rotated, restored or imported'
+    );
+  }
+
+  const { keyType, publicKey, createdAt } = identity;
+  const fingerprint = await computeFingerprint(await importPublicKey(publicKey, keyType));
+  const file: IdentityFile = {
+    format: IDENTITY_FILE_FORMAT,
+    version: IDENTITY_FILE_VERSION,
+    userId,
+    keyType,
+    publicKey,
+    fingerprint,
+    createdAt,
+    exportedAt: new Date().toISOString(),
+    keys: await cryptoWorker.encryptIdentity(
+      userId,
+      passphrase,
+      identityFileAssociatedData({ userId, fingerprint })
+    ),
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Decrypt an identity file, check it holds the key currently published in
+ * profiles.public_key for the signed-in user and store it on this device
+ * @throws If the file is malformed, belongs to someone else, is outdated or the passphrase is wrong
+ */
+export async function importIdentityFile(
+  userId: string,
+  contents: string,
+  passphrase: string
+): Promise<void> {
+  let file: IdentityFile;
+  try {
+    file = JSON.parse(contents);
+  } catch {
+    throw new Error('Not an identity file');
+  }
+  if (file?.format !== IDENTITY_FILE_FORMAT || !file.keys) {
+    throw new Error('Not an identity file');
+  }
+  if (file.version !== IDENTITY_FILE_VERSION) {
+    throw new Error(`Unsupported identity file version: ${file.version}`);
+  }
+  if (file.userId !== userId) {
+    throw new Error('This identity file belongs to a different account');
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('public_key')
+    .eq('id', userId)
+    .single();
+  if (error) throw error;
+
+  const imported = await cryptoWorker.decryptIdentity(
+    file.keys,
+    passphrase,
+    identityFileAssociatedData(file)
+  );
+  if (imported.publicKey !== profile.public_key) {
+    await cryptoWorker.discardIdentity(imported.handle);
+    throw new Error('This identity file does not match your current public key');
+  }
+
+  await cryptoWorker.saveIdentity(imported.handle, userId);
+}
@@ -0,0 +1,74 @@
+/**
+ * Passphrase-protected identity key backups stored in Supabase
+ * The server only ever sees the key material encrypted under the recovery passphrase;
+ * encryption and decryption happen in the crypto worker, which holds the keys.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { cryptoWorker } from './cryptoWorker';
+
+// Backups are bound to their owner so a row copied to another account will not decrypt
+function backupAssociatedData(userId: string): string {
+  return `key-backup:${userId}`;
+}
+
+/**
+ * Whether the user has a key backup on the server
+ */
+export async function hasKeyBackup(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('key_backups')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Encrypt this device's identity keys under a recovery passphrase and upload them,
+ * replacing any earlier backup
+ */
+export async function createKeyBackup(userId: string, passphrase: string): Promise<void> {
+  const encrypted = await cryptoWorker.encryptIdentity(
+    userId,
+    passphrase,
+    backupAssociatedData(userId)
+  );
+  const { error } = await supabase.from('key_backups').upsert({
+    user_id: userId,
+    ...encrypted,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+}
+
+/**
+ * Download and decrypt the key backup, check it still matches the published
+ * public key and store it on this device
+ * @throws If there is no backup, the passphrase is wrong or the backup is outdated
+ */
+export async function restoreKeyBackup(userId: string, passphrase: string): Promise<void> {
+  const { data: backup, error } = await supabase
+    .from('key_backups')
+    .select('salt, iterations, iv, ciphertext')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!backup) throw new Error('No key backup found for this account');
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('public_key')
+    .eq('id', userId)
+    .single();
+  if (profileError) throw profileError;
+
+  const restored = await cryptoWorker.decryptIdentity(backup, passphrase, backupAssociatedData(userId));
+  if (restored.publicKey !== profile.public_key) {
+    await cryptoWorker.discardIdentity(restored.handle);
+    throw new Error('This backup belongs to an older key and cannot be restored');
+  }
+
+  await cryptoWorker.saveIdentity(restored.handle, userId);
+}
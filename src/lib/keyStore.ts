@@ -0,0 +1,136 @@
+/**
+ * IndexedDB persistence for key material and session state
+ * All stores live in the `EncryptDB` database on this device only
+ */
+
+const DB_NAME = 'EncryptDB';
+const DB_VERSION = 11;
+
+/**
+ * Open the key database, creating any missing object stores
+ */
+export function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const request = event.target as IDBOpenDBRequest;
+      const db = request.result;
+      if (!db.objectStoreNames.contains('keys')) {
+        db.createObjectStore('keys', { keyPath: 'userId' });
+      }
+      if (!db.objectStoreNames.contains('signingKeys')) {
+        db.createObjectStore('signingKeys', { keyPath: 'userId' });
+      }
+      // Our own X3DH identity, signed prekey and one-time prekeys, per device
+      if (!db.objectStoreNames.contains('prekeys')) {
+        db.createObjectStore('prekeys', { keyPath: 'userId' });
+      }
+      // Double Ratchet sessions, one record per (owner, peer)
+      if (!db.objectStoreNames.contains('sessions')) {
+        db.createObjectStore('sessions', { keyPath: 'id' });
+      }
+      // Versions 3 to 7 kept the content key of every received ratchet message,
+      // which would let anyone with the device decrypt past messages
+      if (db.objectStoreNames.contains('messageKeys')) {
+        db.deleteObjectStore('messageKeys');
+      }
+      // Decrypted ratchet messages, sealed under a non-extractable key, by owner and message id
+      if (!db.objectStoreNames.contains('messageBodies')) {
+        db.createObjectStore('messageBodies', { keyPath: 'id' });
+      }
+      // Versions 5 to 10 kept the identity keys in PKCS#8 form sealed under a device key
+      // stored next to them, so any script on this origin could unseal them
+      if (db.objectStoreNames.contains('identityExports')) {
+        db.deleteObjectStore('identityExports');
+      }
+      // This browser's registered device key, per user
+      if (!db.objectStoreNames.contains('devices')) {
+        db.createObjectStore('devices', { keyPath: 'userId' });
+      }
+      // What we have verified about each contact's keys, per signed-in user
+      if (!db.objectStoreNames.contains('contacts')) {
+        db.createObjectStore('contacts', { keyPath: 'id' });
+      }
+      // Housekeeping flags, e.g. migrations that finish after the upgrade
+      if (!db.objectStoreNames.contains('meta')) {
+        db.createObjectStore('meta', { keyPath: 'name' });
+      }
+      // Before v4 private keys were stored as PKCS#8 strings; importing them as
+      // CryptoKeys is async, so flag the conversion instead of running it here
+      if (event.oldVersion > 0 && event.oldVersion < 4) {
+        request.transaction!.objectStore('meta').put({ name: 'keyMigration', pending: true });
+      }
+      // The device key that sealed the identityExports copies
+      if (event.oldVersion >= 5 && event.oldVersion < 11) {
+        request.transaction!.objectStore('meta').delete('deviceKey');
+      }
+      // Before v9 prekeys and ratchet state held their secrets as extractable base64;
+      // converted in the crypto worker like the v4 migration
+      if (event.oldVersion >= 3 && event.oldVersion < 9) {
+        request.transaction!.objectStore('meta').put({ name: 'sessionKeyMigration', pending: true });
+      }
+    };
+  });
+}
+
+export async function putRecord(storeName: string, record: unknown): Promise<void> {
+  const db = await openKeyDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    transaction.objectStore(storeName).put(record);
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+export async function getRecord<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openKeyDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly');
+    const getRequest = transaction.objectStore(storeName).get(key);
+
+    getRequest.onsuccess = () => resolve(getRequest.result);
+    getRequest.onerror = () => reject(getRequest.error);
+    transaction.oncomplete = () => db.close();
+  });
+}
+
+export async function getAllRecords<T>(storeName: string): Promise<T[]> {
+  const db = await openKeyDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly');
+    const getRequest = transaction.objectStore(storeName).getAll();
+
+    getRequest.onsuccess = () => resolve(getRequest.result);
+    getRequest.onerror = () => reject(getRequest.error);
+    transaction.oncomplete = () => db.close();
+  });
+}
+
+export async function deleteRecord(storeName: string, key: IDBValidKey): Promise<void> {
+  const db = await openKeyDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    transaction.objectStore(storeName).delete(key);
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
@@ -0,0 +1,222 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  inclusionPath,
+  NodeLookup,
+  subproof,
+  treeHash,
+} from '../../supabase/functions/key-log/merkle';
+import { verifyConsistencyProof, verifyInclusionProof } from './keyTransparency';
+
+// The proofs themselves never reach the server
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+function sha256(...parts: Uint8Array[]): Buffer {
+  const hash = createHash('sha256');
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+}
+
+function hex(hash: Uint8Array): string {
+  return Buffer.from(hash).toString('hex');
+}
+
+// Leaves and roots from the RFC 6962 test vectors of the Certificate Transparency project
+const LEAVES = [
+  '',
+  '00',
+  '10',
+  '2021',
+  '3031',
+  '40414243',
+  '5051525354555657',
+  '606162636465666768696a6b6c6d6e6f',
+].map((leaf) => Buffer.from(leaf, 'hex'));
+
+const ROOTS = [
+  '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+  'fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125',
+  'aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77',
+  'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+  '4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4',
+  '76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef',
+  'ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c',
+  '5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328',
+];
+
+const INCLUSION_PROOFS: { index: number; treeSize: number; proof: string[] }[] = [
+  { index: 0, treeSize: 1, proof: [] },
+  {
+    index: 0,
+    treeSize: 8,
+    proof: [
+      '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4',
+    ],
+  },
+  {
+    index: 5,
+    treeSize: 8,
+    proof: [
+      'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+      'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+      'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+    ],
+  },
+  {
+    index: 2,
+    treeSize: 3,
+    proof: ['fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125'],
+  },
+  {
+    index: 1,
+    treeSize: 5,
+    proof: [
+      '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+    ],
+  },
+];
+
+const CONSISTENCY_PROOFS: { first: number; second: number; proof: string[] }[] = [
+  { first: 1, second: 1, proof: [] },
+  {
+    first: 1,
+    second: 8,
+    proof: [
+      '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4',
+    ],
+  },
+  {
+    first: 6,
+    second: 8,
+    proof: [
+      '0ebc5d3437fbe2db158b9f126a1d118e308181031d0a949f8dededebc558ef6a',
+      'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+      'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+    ],
+  },
+  {
+    first: 2,
+    second: 5,
+    proof: [
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+    ],
+  },
+];
+
+function leafHash(leaf: Uint8Array): Buffer {
+  return sha256(Uint8Array.of(0x00), leaf);
+}
+
+// Hashes of every complete subtree, as key_log_nodes stores them
+function storedNodes(leaves: Uint8Array[]): NodeLookup {
+  const levels: Buffer[][] = [leaves.map(leafHash)];
+  while (levels[levels.length - 1].length > 1) {
+    const below = levels[levels.length - 1];
+    const level: Buffer[] = [];
+    for (let i = 0; i + 1 < below.length; i += 2) {
+      level.push(sha256(Uint8Array.of(0x01), below[i], below[i + 1]));
+    }
+    levels.push(level);
+  }
+  return (level, index) => {
+    const hash = levels[level]?.[index];
+    if (!hash) throw new Error(`No complete subtree at ${level}:${index}`);
+    return new Uint8Array(hash);
+  };
+}
+
+// More leaves than the test vectors cover, to reach larger non-power-of-two trees
+const EXTRA_LEAVES = Array.from({ length: 13 }, (_, i) => Buffer.from(`leaf ${i}`));
+
+describe('key log tree heads', () => {
+  const nodes = storedNodes(LEAVES);
+
+  it('builds the known roots of trees of 1 to 8 leaves', async () => {
+    for (let size = 1; size <= 8; size++) {
+      expect(hex(await treeHash(nodes, 0, size))).toBe(ROOTS[size - 1]);
+    }
+  });
+
+  it('hashes the empty tree', async () => {
+    expect(hex(await treeHash(nodes, 0, 0))).toBe(hex(sha256()));
+  });
+});
+
+describe('inclusion proofs', () => {
+  const nodes = storedNodes(LEAVES);
+
+  it('builds and verifies the known proofs', async () => {
+    for (const { index, treeSize, proof } of INCLUSION_PROOFS) {
+      expect((await inclusionPath(nodes, index, 0, treeSize)).map(hex)).toEqual(proof);
+      expect(
+        await verifyInclusionProof(hex(leafHash(LEAVES[index])), index, treeSize, proof, ROOTS[treeSize - 1])
+      ).toBe(true);
+    }
+  });
+
+  it('verifies the proof of every leaf in trees of 1 to 13 leaves', async () => {
+    const extra = storedNodes(EXTRA_LEAVES);
+    for (let size = 1; size <= EXTRA_LEAVES.length; size++) {
+      const root = hex(await treeHash(extra, 0, size));
+      for (let index = 0; index < size; index++) {
+        const proof = (await inclusionPath(extra, index, 0, size)).map(hex);
+        expect(await verifyInclusionProof(hex(leafHash(EXTRA_LEAVES[index])), index, size, proof, root)).toBe(true);
+      }
+    }
+  });
+
+  it('rejects a proof for another leaf, index or root', async () => {
+    const { index, treeSize, proof } = INCLUSION_PROOFS[2];
+    const leaf = hex(leafHash(LEAVES[index]));
+    const root = ROOTS[treeSize - 1];
+    expect(await verifyInclusionProof(hex(leafHash(LEAVES[4])), index, treeSize, proof, root)).toBe(false);
+    expect(await verifyInclusionProof(leaf, index - 1, treeSize, proof, root)).toBe(false);
+    expect(await verifyInclusionProof(leaf, index, treeSize, proof, ROOTS[6])).toBe(false);
+    expect(await verifyInclusionProof(leaf, index, treeSize, proof.slice(1), root)).toBe(false);
+    expect(await verifyInclusionProof(leaf, treeSize, treeSize, proof, root)).toBe(false);
+  });
+});
+
+describe('consistency proofs', () => {
+  const nodes = storedNodes(LEAVES);
+
+  it('builds and verifies the known proofs', async () => {
+    for (const { first, second, proof } of CONSISTENCY_PROOFS) {
+      expect((await subproof(nodes, first, 0, second, true)).map(hex)).toEqual(proof);
+      expect(
+        await verifyConsistencyProof(first, second, proof, ROOTS[first - 1], ROOTS[second - 1])
+      ).toBe(true);
+    }
+  });
+
+  it('verifies the proof between every pair of trees of 1 to 13 leaves', async () => {
+    const extra = storedNodes(EXTRA_LEAVES);
+    const roots: string[] = [];
+    for (let size = 1; size <= EXTRA_LEAVES.length; size++) {
+      roots[size] = hex(await treeHash(extra, 0, size));
+    }
+    for (let second = 1; second <= EXTRA_LEAVES.length; second++) {
+      for (let first = 1; first <= second; first++) {
+        const proof = (await subproof(extra, first, 0, second, true)).map(hex);
+        expect(await verifyConsistencyProof(first, second, proof, roots[first], roots[second])).toBe(true);
+      }
+    }
+  });
+
+  it('rejects a proof against a forked root', async () => {
+    const { first, second, proof } = CONSISTENCY_PROOFS[2];
+    expect(await verifyConsistencyProof(first, second, proof, ROOTS[4], ROOTS[second - 1])).toBe(false);
+    expect(await verifyConsistencyProof(first, second, proof, ROOTS[first - 1], ROOTS[6])).toBe(false);
+    expect(await verifyConsistencyProof(first, second, proof.slice(1), ROOTS[first - 1], ROOTS[second - 1])).toBe(
+      false
+    );
+    expect(await verifyConsistencyProof(second, first, proof, ROOTS[second - 1], ROOTS[first - 1])).toBe(false);
+  });
+});
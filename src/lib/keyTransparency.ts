@@ -0,0 +1,326 @@
+/**
+ * Client-side auditing of the key transparency log
+ *
+ * Every published identity key is a leaf in an append-only Merkle tree (RFC 6962,
+ * `key_log` table). The key-log edge function signs tree heads with the log's
+ * Ed25519 key, configured here as VITE_KEY_LOG_PUBLIC_KEY (SPKI, PEM or base64).
+ * We check that a contact's current key is included under a signed head, and that
+ * every head we see is consistent with the last one we stored, so the server
+ * cannot fork the log to show different keys to different users.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { base64ToArrayBuffer } from './crypto';
+import { getRecord, putRecord } from './keyStore';
+
+/**
+ * Signed tree head as served by the key-log edge function
+ */
+export interface SignedTreeHead {
+  treeSize: number;
+  rootHash: string;
+  signedAt: string;
+  signature: string;
+}
+
+export type AuditResult =
+  | { status: 'verified'; treeSize: number }
+  | { status: 'failed'; reason: string }
+  // Transparency is not configured, or the log could not be reached
+  | { status: 'unavailable'; reason: string };
+
+/**
+ * A check of the log's structure failed: evidence of a misbehaving server
+ */
+export class KeyLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyLogError';
+  }
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) throw new KeyLogError('Malformed hash in log response');
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await globalThis.crypto.subtle.digest('SHA-256', data));
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * RFC 6962 leaf hash of a key log entry: SHA-256(0x00 || "<user id>\n<key type>\n<public key>")
+ */
+export async function keyLogLeafHash(userId: string, keyType: string, publicKey: string): Promise<string> {
+  const data = new TextEncoder().encode(`${userId}\n${keyType}\n${publicKey}`);
+  const input = new Uint8Array(1 + data.length);
+  input.set(data, 1);
+  return bytesToHex(await sha256(input));
+}
+
+async function nodeHash(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+  const input = new Uint8Array(1 + left.length + right.length);
+  input[0] = 0x01;
+  input.set(left, 1);
+  input.set(right, 1 + left.length);
+  return await sha256(input);
+}
+
+/**
+ * Verify an inclusion proof (RFC 9162 section 2.1.3.2)
+ * @param proof - Hex sibling hashes, from the leaf up
+ */
+export async function verifyInclusionProof(
+  leafHash: string,
+  index: number,
+  treeSize: number,
+  proof: string[],
+  rootHash: string
+): Promise<boolean> {
+  if (index < 0 || index >= treeSize) return false;
+
+  let fn = index;
+  let sn = treeSize - 1;
+  let hash = hexToBytes(leafHash);
+  for (const sibling of proof.map(hexToBytes)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      hash = await nodeHash(sibling, hash);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      hash = await nodeHash(hash, sibling);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && equalBytes(hash, hexToBytes(rootHash));
+}
+
+/**
+ * Verify a consistency proof between two tree heads (RFC 9162 section 2.1.4.2)
+ */
+export async function verifyConsistencyProof(
+  firstSize: number,
+  secondSize: number,
+  proof: string[],
+  firstRoot: string,
+  secondRoot: string
+): Promise<boolean> {
+  if (firstSize < 0 || firstSize > secondSize) return false;
+  if (firstSize === secondSize) return proof.length === 0 && firstRoot === secondRoot;
+  // Any tree extends the empty tree
+  if (firstSize === 0) return true;
+
+  const path = proof.map(hexToBytes);
+  // If the first tree is complete its root is the starting node and not part of the proof
+  if ((firstSize & (firstSize - 1)) === 0) path.unshift(hexToBytes(firstRoot));
+  if (path.length === 0) return false;
+
+  let fn = firstSize - 1;
+  let sn = secondSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let firstHash = path[0];
+  let secondHash = path[0];
+  for (const node of path.slice(1)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      firstHash = await nodeHash(node, firstHash);
+      secondHash = await nodeHash(node, secondHash);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      secondHash = await nodeHash(secondHash, node);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return (
+    sn === 0 &&
+    equalBytes(firstHash, hexToBytes(firstRoot)) &&
+    equalBytes(secondHash, hexToBytes(secondRoot))
+  );
+}
+
+// Byte encoding of a tree head as signed by the edge function
+function encodeTreeHead(head: SignedTreeHead): Uint8Array {
+  return new TextEncoder().encode(
+    `key-log-tree-head\n${head.treeSize}\n${head.rootHash}\n${head.signedAt}`
+  );
+}
+
+let logPublicKey: Promise<CryptoKey | null> | null = null;
+
+// The log's Ed25519 public key from the build configuration, or null if none is set
+function getLogPublicKey(): Promise<CryptoKey | null> {
+  if (!logPublicKey) {
+    const configured: string | undefined = import.meta.env.VITE_KEY_LOG_PUBLIC_KEY;
+    logPublicKey = configured
+      ? globalThis.crypto.subtle.importKey(
+          'spki',
+          base64ToArrayBuffer(configured.replace(/-----(BEGIN|END) PUBLIC KEY-----|\s/g, '')),
+          { name: 'Ed25519' },
+          false,
+          ['verify']
+        )
+      : Promise.resolve(null);
+  }
+  return logPublicKey;
+}
+
+/**
+ * Verify a tree head's signature with the log's public key
+ */
+export async function verifyTreeHead(head: SignedTreeHead, publicKey: CryptoKey): Promise<boolean> {
+  return await globalThis.crypto.subtle.verify(
+    { name: 'Ed25519' },
+    publicKey,
+    base64ToArrayBuffer(head.signature),
+    encodeTreeHead(head)
+  );
+}
+
+async function callKeyLog<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('key-log', { body });
+  if (error) throw error;
+  return data as T;
+}
+
+// Audits share the stored head, so they run one at a time
+let auditQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueAudit<T>(task: () => Promise<T>): Promise<T> {
+  const next = auditQueue.catch(() => undefined).then(task);
+  auditQueue = next;
+  return next;
+}
+
+/**
+ * Fetch the current signed tree head and check that it extends the last head this
+ * browser accepted; the new head replaces it
+ * @throws KeyLogError if the signature or consistency proof does not verify
+ */
+async function advanceTreeHead(publicKey: CryptoKey): Promise<SignedTreeHead> {
+  const head = await callKeyLog<SignedTreeHead>({ action: 'head' });
+  if (!(await verifyTreeHead(head, publicKey))) {
+    throw new KeyLogError('Tree head signature is invalid');
+  }
+
+  const previous = await getRecord<{ name: string; head: SignedTreeHead }>('meta', 'keyLogHead');
+  if (previous) {
+    const before = previous.head;
+    if (head.treeSize < before.treeSize) {
+      throw new KeyLogError('The log is smaller than a tree head seen earlier');
+    }
+    const { proof } =
+      head.treeSize === before.treeSize || before.treeSize === 0
+        ? { proof: [] as string[] }
+        : await callKeyLog<{ proof: string[] }>({
+            action: 'consistency',
+            first: before.treeSize,
+            second: head.treeSize,
+          });
+    const consistent = await verifyConsistencyProof(
+      before.treeSize,
+      head.treeSize,
+      proof,
+      before.rootHash,
+      head.rootHash
+    );
+    if (!consistent) {
+      throw new KeyLogError('The log is not consistent with a tree head seen earlier');
+    }
+  }
+
+  await putRecord('meta', { name: 'keyLogHead', head });
+  return head;
+}
+
+/**
+ * Check that a user's published key is the latest entry for them in the key log
+ * and is included under a signed tree head consistent with earlier ones
+ * @param profile - Profile row as returned by the server
+ */
+export function auditProfileKey(profile: {
+  id: string;
+  public_key: string;
+  key_type: string;
+}): Promise<AuditResult> {
+  return enqueueAudit(async () => {
+    let publicKey: CryptoKey | null;
+    try {
+      publicKey = await getLogPublicKey();
+    } catch (err) {
+      console.error('Invalid key log public key:', err);
+      return { status: 'unavailable', reason: 'The key log public key is invalid' };
+    }
+    if (!publicKey) {
+      return { status: 'unavailable', reason: 'Key transparency is not configured' };
+    }
+
+    try {
+      // Read the entry before the head, so the head always covers it
+      const { data: entry, error } = await supabase
+        .from('key_log')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('log_index', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+
+      const head = await advanceTreeHead(publicKey);
+
+      if (!entry || entry.public_key !== profile.public_key || entry.key_type !== profile.key_type) {
+        return { status: 'failed', reason: 'This key is not the latest one logged for the user' };
+      }
+      if (entry.log_index >= head.treeSize) {
+        return { status: 'failed', reason: 'The signed tree head does not cover this key' };
+      }
+
+      const leafHash = await keyLogLeafHash(entry.user_id, entry.key_type, entry.public_key);
+      const { proof } = await callKeyLog<{ proof: string[] }>({
+        action: 'inclusion',
+        index: entry.log_index,
+        treeSize: head.treeSize,
+      });
+      if (!(await verifyInclusionProof(leafHash, entry.log_index, head.treeSize, proof, head.rootHash))) {
+        return { status: 'failed', reason: 'The inclusion proof for this key is invalid' };
+      }
+
+      return { status: 'verified', treeSize: head.treeSize };
+    } catch (err) {
+      if (err instanceof KeyLogError) {
+        return { status: 'failed', reason: err.message };
+      }
+      console.error('Key log audit error:', err);
+      return { status: 'unavailable', reason: 'The key log could not be reached' };
+    }
+  });
+}
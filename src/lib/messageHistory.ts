@@ -0,0 +1,103 @@
+/**
+ * Paged conversation history
+ * Messages are read newest first in pages, using keyset pagination on
+ * (created_at, id) so a page costs the same however deep into the history it
+ * starts. The id breaks ties between messages with the same timestamp.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Either a direct conversation between two users or a group conversation
+export type HistoryScope =
+  | { kind: 'direct'; userId: string; otherUserId: string }
+  | { kind: 'group'; conversationId: string };
+
+// Position of a message in the history, e.g. the oldest one loaded so far
+export interface HistoryCursor {
+  createdAt: string;
+  id: string;
+}
+
+export function historyScopeKey(scope: HistoryScope): string {
+  return scope.kind === 'direct' ? scope.otherUserId : scope.conversationId;
+}
+
+// Messages of the conversation, before ordering and paging
+function scopeQuery(scope: HistoryScope) {
+  const query = supabase.from('messages').select('*');
+  if (scope.kind === 'direct') {
+    const { userId, otherUserId } = scope;
+    return query.or(
+      `and(sender_id.eq.${userId},recipient_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},recipient_id.eq.${userId})`
+    );
+  }
+  return query.eq('conversation_id', scope.conversationId);
+}
+
+export interface MessagePage {
+  // Oldest first, ready to be prepended to the loaded history
+  rows: Tables<'messages'>[];
+  // Cursor for the next older page, null once the start of the history is reached
+  before: HistoryCursor | null;
+}
+
+/**
+ * One page of a conversation's messages, the newest page unless a cursor is given
+ */
+export async function fetchMessagePage(
+  scope: HistoryScope,
+  before?: HistoryCursor,
+  pageSize = MESSAGE_PAGE_SIZE
+): Promise<MessagePage> {
+  let query = scopeQuery(scope);
+  if (before) {
+    // Timestamps contain reserved characters, so they are quoted
+    const createdAt = `"${before.createdAt}"`;
+    query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${before.id})`);
+  }
+
+  // One extra row tells whether an older page exists
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize + 1);
+  if (error) throw error;
+
+  const rows = (data ?? []).slice(0, pageSize).reverse();
+  const hasOlder = (data ?? []).length > pageSize;
+  return {
+    rows,
+    before: hasOlder ? { createdAt: rows[0].created_at, id: rows[0].id } : null,
+  };
+}
+
+/**
+ * Every message of a conversation after the given position, oldest first, e.g.
+ * the ones that arrived while the realtime connection was down
+ */
+export async function fetchMessagesAfter(
+  scope: HistoryScope,
+  after: HistoryCursor,
+  pageSize = MESSAGE_PAGE_SIZE
+): Promise<Tables<'messages'>[]> {
+  const rows: Tables<'messages'>[] = [];
+  let cursor = after;
+
+  for (;;) {
+    const createdAt = `"${cursor.createdAt}"`;
+    const { data, error } = await scopeQuery(scope)
+      .or(`created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt.${cursor.id})`)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(pageSize);
+    if (error) throw error;
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < pageSize) return rows;
+    const last = data[data.length - 1];
+    cursor = { createdAt: last.created_at, id: last.id };
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Publishing and fetching per-device X3DH prekey bundles through Supabase
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { importSigningPublicKey } from './crypto';
+import { cryptoWorker } from './cryptoWorker';
+import { PrekeyBundle, verifyPrekeyBundle } from './session';
+
+// Top up the server once fewer than this many one-time prekeys remain
+const ONE_TIME_PREKEY_MINIMUM = 10;
+
+/**
+ * Publish this device's signed prekey bundle and keep enough one-time prekeys on the server.
+ * The bundle is signed in the crypto worker with the loaded account signing key.
+ * @param deviceId - This browser's registered device
+ * @param userId - Current user
+ */
+export async function publishPrekeys(deviceId: string, userId: string): Promise<void> {
+  const bundle = await cryptoWorker.signedPrekeyBundle(deviceId);
+
+  const { error } = await supabase.from('prekey_bundles').upsert({
+    device_id: deviceId,
+    user_id: userId,
+    identity_key: bundle.identityKey,
+    signed_prekey_id: bundle.signedPreKeyId,
+    signed_prekey: bundle.signedPreKey,
+    signed_prekey_signature: bundle.signature,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+
+  // One-time prekeys published for a previous identity key can never be used
+  if (bundle.isNew) {
+    const { error: deleteError } = await supabase
+      .from('one_time_prekeys')
+      .delete()
+      .eq('device_id', deviceId);
+    if (deleteError) throw deleteError;
+  }
+
+  const { count, error: countError } = await supabase
+    .from('one_time_prekeys')
+    .select('key_id', { count: 'exact', head: true })
+    .eq('device_id', deviceId);
+  if (countError) throw countError;
+
+  if ((count ?? 0) < ONE_TIME_PREKEY_MINIMUM) {
+    const oneTimePrekeys = await cryptoWorker.generateOneTimePrekeys(deviceId);
+    const { error: insertError } = await supabase.from('one_time_prekeys').insert(
+      oneTimePrekeys.map(({ keyId, publicKey }) => ({
+        device_id: deviceId,
+        user_id: userId,
+        key_id: keyId,
+        public_key: publicKey,
+      }))
+    );
+    if (insertError) throw insertError;
+  }
+}
+
+// A device's published bundle, without a one-time prekey
+async function fetchPublishedBundle(deviceId: string): Promise<PrekeyBundle | null> {
+  const { data: bundle, error } = await supabase
+    .from('prekey_bundles')
+    .select('*')
+    .eq('device_id', deviceId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!bundle) return null;
+
+  return {
+    deviceId: bundle.device_id,
+    identityKey: bundle.identity_key,
+    signedPreKeyId: bundle.signed_prekey_id,
+    signedPreKey: bundle.signed_prekey,
+    signedPreKeySignature: bundle.signed_prekey_signature,
+    oneTimePreKeyId: null,
+    oneTimePreKey: null,
+  };
+}
+
+/**
+ * Fetch a peer device's prekey bundle, claiming one of its one-time prekeys if any are left
+ * @returns The bundle, or null if the device has not published one
+ */
+export async function fetchPrekeyBundle(deviceId: string): Promise<PrekeyBundle | null> {
+  const bundle = await fetchPublishedBundle(deviceId);
+  if (!bundle) return null;
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_one_time_prekey', {
+    target_device: deviceId,
+  });
+  if (claimError) throw claimError;
+  const oneTimePreKey = claimed?.[0] ?? null;
+
+  return {
+    ...bundle,
+    oneTimePreKeyId: oneTimePreKey?.key_id ?? null,
+    oneTimePreKey: oneTimePreKey?.public_key ?? null,
+  };
+}
+
+/**
+ * Fetch the published bundle of a device that sent us a session init. The init's
+ * header is not authenticated, so the session is only accepted if its identity
+ * key matches this bundle.
+ * @param signingPublicKey - Device owner's signing key, which authenticates the bundle
+ * @returns The verified bundle, or null if the device has none or it does not verify
+ */
+export async function fetchSenderBundle(
+  deviceId: string,
+  signingPublicKey: string | null
+): Promise<PrekeyBundle | null> {
+  if (!signingPublicKey) return null;
+  const bundle = await fetchPublishedBundle(deviceId);
+  if (!bundle) return null;
+
+  const verified = await verifyPrekeyBundle(bundle, await importSigningPublicKey(signingPublicKey));
+  return verified ? bundle : null;
+}
+
+/**
+ * Make sure a Double Ratchet session with a peer device exists, running X3DH if needed
+ * @param ownerDeviceId - This browser's device
+ * @param peerDeviceId - Device of the peer (or another device of our own)
+ * @param peerSigningPublicKey - Device owner's signing key, which authenticates the prekey bundle
+ * @returns False if either side cannot use sessions yet (no bundle or no signing key), or
+ *   the bundle does not verify, e.g. because it was signed before a key rotation
+ */
+export async function ensureSession(
+  ownerDeviceId: string,
+  peerDeviceId: string,
+  peerSigningPublicKey: string | null
+): Promise<boolean> {
+  if (await cryptoWorker.hasSession(ownerDeviceId, peerDeviceId)) return true;
+  if (!peerSigningPublicKey || !(await cryptoWorker.hasLocalPrekeys(ownerDeviceId))) return false;
+
+  const bundle = await fetchPrekeyBundle(peerDeviceId);
+  if (!bundle) return false;
+
+  const signingPublicKey = await importSigningPublicKey(peerSigningPublicKey);
+  if (!(await verifyPrekeyBundle(bundle, signingPublicKey))) {
+    console.warn('Prekey bundle signature is invalid; not opening a session with device', peerDeviceId);
+    return false;
+  }
+
+  await cryptoWorker.initiateSession(ownerDeviceId, peerDeviceId, bundle);
+  return true;
+}
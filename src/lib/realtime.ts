@@ -0,0 +1,85 @@
+/**
+ * Realtime message delivery
+ * One channel per signed-in user. The server filters inserts down to messages
+ * the user sent or received directly and to the group conversations they are a
+ * member of, so rows for other users never reach the client. Being added to a
+ * group is announced on the same channel, so the caller can subscribe to it too.
+ * Inserts made while the socket was down are not replayed, so the caller
+ * resynchronizes its loaded conversations every time the channel (re)subscribes.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// Realtime accepts at most this many values in an `in` filter
+const MAX_FILTER_VALUES = 100;
+
+export interface MessageSubscriptionHandlers {
+  onMessage: (row: Tables<'messages'>) => void;
+  onJoinedConversation: (conversationId: string) => void;
+  // Called on the first subscription and again after every reconnect
+  onSubscribed: () => void;
+}
+
+/**
+ * The conversation a message belongs to: the group's id, or the other party's
+ * user id for a direct message
+ */
+export function messageConversationKey(
+  row: Pick<Tables<'messages'>, 'sender_id' | 'recipient_id' | 'conversation_id'>,
+  userId: string
+): string {
+  if (row.conversation_id) return row.conversation_id;
+  return row.sender_id === userId ? row.recipient_id! : row.sender_id;
+}
+
+/**
+ * Subscribe to new messages for the user and their group conversations. Returns
+ * the function that unsubscribes.
+ */
+export function subscribeToUserMessages(
+  userId: string,
+  conversationIds: string[],
+  handlers: MessageSubscriptionHandlers
+): () => void {
+  const seen = new Set<string>();
+  // A message to oneself matches both the sender and recipient filters
+  const deliver = (row: Tables<'messages'>) => {
+    if (seen.has(row.id)) return;
+    seen.add(row.id);
+    handlers.onMessage(row);
+  };
+
+  const filters = [`recipient_id=eq.${userId}`, `sender_id=eq.${userId}`];
+  for (let i = 0; i < conversationIds.length; i += MAX_FILTER_VALUES) {
+    filters.push(`conversation_id=in.(${conversationIds.slice(i, i + MAX_FILTER_VALUES).join(',')})`);
+  }
+
+  let channel = supabase.channel(`messages:${userId}`);
+  for (const filter of filters) {
+    channel = channel.on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter },
+      (payload) => deliver(payload.new as Tables<'messages'>)
+    );
+  }
+
+  channel = channel.on(
+    'postgres_changes',
+    { event: 'INSERT', schema: 'public', table: 'conversation_members', filter: `user_id=eq.${userId}` },
+    (payload) => handlers.onJoinedConversation((payload.new as Tables<'conversation_members'>).conversation_id)
+  );
+
+  channel.subscribe((status, err) => {
+    if (status === 'SUBSCRIBED') {
+      handlers.onSubscribed();
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      // The client keeps retrying and reports SUBSCRIBED once it is back
+      console.warn(`Realtime channel ${status.toLowerCase()}:`, err);
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Revocation of compromised identity keys
+ * The owner signs a statement naming the key and the signing key that goes with it;
+ * the server stores it and marks the profile, and clients stop encrypting to the key.
+ * Messages signed with the revoked signing key after the revocation are flagged.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  computeKeyId,
+  importPublicKey,
+  importSigningPublicKey,
+  KeyType,
+  verifyData,
+} from './crypto';
+import { cryptoWorker } from './cryptoWorker';
+
+/**
+ * Statement signed by the key owner to revoke an identity key
+ */
+export interface RevocationStatement {
+  type: 'identity-key-revocation';
+  userId: string;
+  publicKey: string;
+  // Absent from statements issued before signing keys were revoked too
+  signingPublicKey?: string | null;
+  reason: string;
+  issuedAt: string;
+}
+
+/**
+ * Revocation as stored in the `key_revocations` table
+ */
+export interface KeyRevocation {
+  id: string;
+  user_id: string;
+  public_key: string;
+  key_type: string;
+  signing_public_key: string | null;
+  statement: string;
+  signature: string;
+  revoked_at: string;
+}
+
+/**
+ * A revocation whose statement verified, with the key id of the revoked key
+ */
+export interface VerifiedRevocation {
+  userId: string;
+  keyId: string;
+  // Signing key revoked with it, null for revocations recorded before signing keys were
+  signingPublicKey: string | null;
+  revokedAt: string;
+  reason: string;
+}
+
+/**
+ * A signing key a user has published
+ */
+export interface SigningKey {
+  publicKey: string;
+  publishedAt: string;
+  // When a rotation replaced it, null for the current key
+  retiredAt: string | null;
+}
+
+/**
+ * Revoke the user's current identity key and signing key. The statement is signed
+ * in the crypto worker with the signing key it revokes.
+ * @param publicKey - The current public key (PEM), as published on the profile
+ * @param signingPublicKey - The current signing public key (PEM), as published on the profile
+ * @returns Revocation time recorded by the server
+ */
+export async function revokeIdentityKey(
+  userId: string,
+  publicKey: string,
+  signingPublicKey: string,
+  reason: string
+): Promise<string> {
+  const statement: RevocationStatement = {
+    type: 'identity-key-revocation',
+    userId,
+    publicKey,
+    signingPublicKey,
+    reason,
+    issuedAt: new Date().toISOString(),
+  };
+  const encoded = JSON.stringify(statement);
+  const signature = await cryptoWorker.signData(new TextEncoder().encode(encoded));
+
+  const { data, error } = await supabase.rpc('revoke_identity_key', {
+    statement: encoded,
+    signature,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Profile fields naming a user's current signing key
+ */
+export interface SigningKeyProfile {
+  id: string;
+  signing_public_key: string | null;
+  signing_key_published_at: string | null;
+}
+
+/**
+ * A user's current signing key as published on their profile
+ */
+export function currentSigningKeys(profile: SigningKeyProfile): SigningKey[] {
+  return profile.signing_public_key
+    ? [
+        {
+          publicKey: profile.signing_public_key,
+          // Set by the server whenever the key is; the epoch makes a missing time strict
+          publishedAt: profile.signing_key_published_at ?? new Date(0).toISOString(),
+          retiredAt: null,
+        },
+      ]
+    : [];
+}
+
+/**
+ * Fetch the signing keys each user has published: the current one, then those
+ * replaced by rotations, newest first
+ */
+export async function fetchSigningKeys(
+  profiles: SigningKeyProfile[]
+): Promise<Record<string, SigningKey[]>> {
+  const { data, error } = await supabase
+    .from('signing_key_history')
+    .select('user_id, public_key, published_at, retired_at')
+    .in('user_id', profiles.map((profile) => profile.id))
+    .order('retired_at', { ascending: false });
+  if (error) throw error;
+
+  const signingKeys: Record<string, SigningKey[]> = Object.fromEntries(
+    profiles.map((profile) => [profile.id, currentSigningKeys(profile)])
+  );
+  for (const row of data || []) {
+    signingKeys[row.user_id]?.push({
+      publicKey: row.public_key,
+      publishedAt: row.published_at,
+      retiredAt: row.retired_at,
+    });
+  }
+  return signingKeys;
+}
+
+// Whether one of the given signing keys signed the statement
+async function isSignedByOneOf(revocation: KeyRevocation, signingPublicKeys: string[]): Promise<boolean> {
+  const data = new TextEncoder().encode(revocation.statement);
+  for (const signingPublicKey of signingPublicKeys) {
+    if (await verifyData(data, revocation.signature, await importSigningPublicKey(signingPublicKey))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Fetch the revocations of the given users and keep those whose statement is
+ * signed by the signing key it revokes and names the revoked keys
+ * @param signingKeys - Signing keys each user has published, from fetchSigningKeys
+ */
+export async function fetchVerifiedRevocations(
+  signingKeys: Record<string, SigningKey[]>
+): Promise<VerifiedRevocation[]> {
+  const { data, error } = await supabase
+    .from('key_revocations')
+    .select('*')
+    .in('user_id', Object.keys(signingKeys));
+  if (error) throw error;
+
+  const verified: VerifiedRevocation[] = [];
+  for (const revocation of (data || []) as KeyRevocation[]) {
+    const ownKeys = (signingKeys[revocation.user_id] ?? []).map((key) => key.publicKey);
+    if (ownKeys.length === 0) continue;
+    // Only a key the owner published can be revoked; earlier revocations name none,
+    // and were signed by whichever key the owner had then
+    const revokedSigningKey = revocation.signing_public_key;
+    if (revokedSigningKey && !ownKeys.includes(revokedSigningKey)) {
+      console.warn('Ignoring revocation of an unknown signing key:', revocation.id);
+      continue;
+    }
+
+    try {
+      const statement: RevocationStatement = JSON.parse(revocation.statement);
+      const valid =
+        statement.type === 'identity-key-revocation' &&
+        statement.userId === revocation.user_id &&
+        statement.publicKey === revocation.public_key &&
+        (statement.signingPublicKey === undefined ||
+          statement.signingPublicKey === revokedSigningKey) &&
+        (await isSignedByOneOf(revocation, revokedSigningKey ? [revokedSigningKey] : ownKeys));
+      if (!valid) {
+        console.warn('Ignoring revocation with an invalid statement:', revocation.id);
+        continue;
+      }
+
+      verified.push({
+        userId: revocation.user_id,
+        keyId: await computeKeyId(
+          await importPublicKey(revocation.public_key, revocation.key_type as KeyType)
+        ),
+        signingPublicKey: revokedSigningKey,
+        revokedAt: revocation.revoked_at,
+        reason: statement.reason,
+      });
+    } catch (err) {
+      console.warn('Ignoring unreadable revocation:', revocation.id, err);
+    }
+  }
+  return verified;
+}
@@ -0,0 +1,108 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { arrayBufferToBase64, base64ToArrayBuffer, EncryptedMessage, generateECKeyPair } from './crypto';
+import {
+  decryptGroupMessage,
+  encryptGroupMessage,
+  generateSenderKey,
+  groupMessageSenderKeyId,
+  openSenderKey,
+  sealSenderKey,
+  SenderKey,
+} from './senderKeys';
+
+function flipBit(base64: string, index = 0): string {
+  const data = new Uint8Array(base64ToArrayBuffer(base64));
+  data[index] ^= 1;
+  return arrayBufferToBase64(data.buffer);
+}
+
+describe('sender keys', () => {
+  let alice: CryptoKeyPair;
+  let bob: CryptoKeyPair;
+  let senderKey: SenderKey;
+
+  beforeAll(async () => {
+    [alice, bob] = await Promise.all([generateECKeyPair(), generateECKeyPair()]);
+    senderKey = generateSenderKey('group-1', 'alice');
+  });
+
+  async function encryptForGroup(message: string, messageId = 'message-1'): Promise<EncryptedMessage> {
+    const result = await encryptGroupMessage(
+      message,
+      { messageId, senderId: 'alice', conversationId: 'group-1' },
+      senderKey
+    );
+    return {
+      id: messageId,
+      senderId: 'alice',
+      recipientId: 'group-1',
+      envelopeVersion: result.envelopeVersion,
+      ciphertext: result.ciphertext,
+      iv: result.iv,
+      encryptedKey: '',
+      encryptedKeys: {},
+    };
+  }
+
+  it('distributes a sender key to a member', async () => {
+    const distribution = await sealSenderKey(senderKey, { id: 'bob', publicKey: bob.publicKey });
+    const opened = await openSenderKey(distribution, 'bob', [{ privateKey: bob.privateKey }]);
+
+    expect(opened.id).toBe(senderKey.id);
+    expect(opened.senderId).toBe('alice');
+    expect(opened.conversationId).toBe('group-1');
+    expect(arrayBufferToBase64(opened.key)).toBe(arrayBufferToBase64(senderKey.key));
+  });
+
+  it('rejects a distribution addressed to someone else', async () => {
+    const distribution = await sealSenderKey(senderKey, { id: 'bob', publicKey: bob.publicKey });
+    await expect(openSenderKey(distribution, 'alice', [{ privateKey: alice.privateKey }])).rejects.toThrow(
+      'not addressed'
+    );
+  });
+
+  it('rejects a distribution moved to another conversation or key id', async () => {
+    const distribution = await sealSenderKey(senderKey, { id: 'bob', publicKey: bob.publicKey });
+    const bobKeys = [{ privateKey: bob.privateKey }];
+    await expect(
+      openSenderKey({ ...distribution, conversationId: 'group-2' }, 'bob', bobKeys)
+    ).rejects.toThrow('does not match');
+    await expect(openSenderKey({ ...distribution, keyId: 'other' }, 'bob', bobKeys)).rejects.toThrow(
+      'does not match'
+    );
+  });
+
+  it('round-trips a group message and names its sender key', async () => {
+    const encrypted = await encryptForGroup('Hello, group!');
+    expect(groupMessageSenderKeyId(encrypted)).toBe(senderKey.id);
+    expect(await decryptGroupMessage(encrypted, senderKey)).toBe('Hello, group!');
+  });
+
+  it('derives a different message key per message id', async () => {
+    const first = await encryptForGroup('same', 'message-1');
+    const second = await encryptForGroup('same', 'message-2');
+    await expect(decryptGroupMessage({ ...second, id: 'message-1', ciphertext: first.ciphertext }, senderKey))
+      .rejects.toThrow();
+  });
+
+  it('rejects a tampered group message', async () => {
+    const encrypted = await encryptForGroup('integrity');
+    await expect(decryptGroupMessage({ ...encrypted, iv: flipBit(encrypted.iv) }, senderKey)).rejects.toThrow();
+  });
+
+  it('rejects a message replayed into another conversation or under another sender', async () => {
+    const encrypted = await encryptForGroup('bound');
+    await expect(decryptGroupMessage({ ...encrypted, recipientId: 'group-2' }, senderKey)).rejects.toThrow(
+      'not encrypted under this sender key'
+    );
+    await expect(
+      decryptGroupMessage(encrypted, { ...senderKey, senderId: 'bob' })
+    ).rejects.toThrow('not encrypted under this sender key');
+  });
+
+  it('refuses to encrypt with another member\'s sender key', async () => {
+    await expect(
+      encryptGroupMessage('spoof', { messageId: 'm', senderId: 'bob', conversationId: 'group-1' }, senderKey)
+    ).rejects.toThrow('another sender');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Sender keys for group conversations
+ * Each member encrypts their group messages under their own sender key, a random
+ * 256-bit secret from which a fresh AES key is derived per message id, so a message
+ * is encrypted once however many members the group has. The sender key reaches the
+ * members pairwise: one version 1 envelope per member, encrypted to that member's
+ * identity key and stored in the `sender_keys` table.
+ */
+
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  decodeEnvelope,
+  decryptMessage,
+  EncryptedMessage,
+  encryptMessage,
+  EnvelopeHeader,
+  GROUP_ENVELOPE_VERSION,
+  hkdf,
+  IdentityPrivateKey,
+  MessageRecipient,
+  openEnvelope,
+  sealEnvelope,
+} from './crypto';
+
+const GROUP_MESSAGE_KEY_INFO = 'TrustStream Group Message Key';
+const SENDER_KEY_LENGTH = 32;
+
+const DISTRIBUTION_FORMAT = 'encryptia-sender-key';
+const DISTRIBUTION_VERSION = 1;
+
+/**
+ * A member's sender key for one conversation
+ */
+export interface SenderKey {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  key: ArrayBuffer;
+}
+
+/**
+ * A sender key encrypted to one member, as stored in `public.sender_keys`
+ */
+export interface SenderKeyDistribution extends EncryptedMessage {
+  conversationId: string;
+  keyId: string;
+}
+
+export function generateSenderKey(conversationId: string, senderId: string): SenderKey {
+  return {
+    id: globalThis.crypto.randomUUID(),
+    conversationId,
+    senderId,
+    key: globalThis.crypto.getRandomValues(new Uint8Array(SENDER_KEY_LENGTH)).buffer,
+  };
+}
+
+/**
+ * Encrypt a sender key to one member's identity key
+ */
+export async function sealSenderKey(
+  senderKey: SenderKey,
+  recipient: MessageRecipient
+): Promise<SenderKeyDistribution> {
+  const id = globalThis.crypto.randomUUID();
+  const plaintext = JSON.stringify({
+    format: DISTRIBUTION_FORMAT,
+    version: DISTRIBUTION_VERSION,
+    conversationId: senderKey.conversationId,
+    keyId: senderKey.id,
+    key: arrayBufferToBase64(senderKey.key),
+  });
+  const { ciphertext, iv, encryptedKeys, envelopeVersion } = await encryptMessage(
+    plaintext,
+    { messageId: id, senderId: senderKey.senderId, recipientId: recipient.id },
+    [recipient]
+  );
+
+  return {
+    id,
+    conversationId: senderKey.conversationId,
+    keyId: senderKey.id,
+    senderId: senderKey.senderId,
+    recipientId: recipient.id,
+    envelopeVersion,
+    ciphertext,
+    iv,
+    encryptedKey: '',
+    encryptedKeys,
+  };
+}
+
+/**
+ * Decrypt a sender key addressed to the user
+ * @throws If the copy is not addressed to the user or its contents do not match the stored row
+ */
+export async function openSenderKey(
+  distribution: SenderKeyDistribution,
+  userId: string,
+  privateKeys: IdentityPrivateKey[]
+): Promise<SenderKey> {
+  const plaintext = await decryptMessage(distribution, userId, privateKeys);
+  if (plaintext === null) {
+    throw new Error('Sender key is not addressed to this user');
+  }
+
+  const parsed = JSON.parse(plaintext);
+  if (
+    parsed?.format !== DISTRIBUTION_FORMAT ||
+    parsed.version !== DISTRIBUTION_VERSION ||
+    parsed.conversationId !== distribution.conversationId ||
+    parsed.keyId !== distribution.keyId ||
+    typeof parsed.key !== 'string'
+  ) {
+    throw new Error('Sender key does not match its distribution');
+  }
+
+  const key = base64ToArrayBuffer(parsed.key);
+  if (key.byteLength !== SENDER_KEY_LENGTH) {
+    throw new Error('Invalid sender key length');
+  }
+  return {
+    id: distribution.keyId,
+    conversationId: distribution.conversationId,
+    senderId: distribution.senderId,
+    key,
+  };
+}
+
+async function groupMessageKey(senderKey: SenderKey, messageId: string): Promise<ArrayBuffer> {
+  return await hkdf(senderKey.key, new TextEncoder().encode(messageId), GROUP_MESSAGE_KEY_INFO, 32);
+}
+
+/**
+ * Encrypt a group message once, under the sender's sender key
+ * @returns Encoded envelope, Base64 IV and the envelope version
+ */
+export async function encryptGroupMessage(
+  message: string,
+  context: { messageId: string; senderId: string; conversationId: string },
+  senderKey: SenderKey
+): Promise<{ ciphertext: string; iv: string; envelopeVersion: number }> {
+  if (senderKey.senderId !== context.senderId || senderKey.conversationId !== context.conversationId) {
+    throw new Error('Sender key belongs to another sender or conversation');
+  }
+
+  const header: EnvelopeHeader = {
+    version: GROUP_ENVELOPE_VERSION,
+    suite: 'SENDER-KEY/AES-256-GCM',
+    senderId: context.senderId,
+    recipientId: context.conversationId,
+    messageId: context.messageId,
+    keyIds: {},
+    senderKeyId: senderKey.id,
+  };
+  const { ciphertext, iv } = await sealEnvelope(
+    message,
+    header,
+    await groupMessageKey(senderKey, context.messageId)
+  );
+  return { ciphertext, iv, envelopeVersion: GROUP_ENVELOPE_VERSION };
+}
+
+/**
+ * Id of the sender key a group message was encrypted under
+ */
+export function groupMessageSenderKeyId(message: Pick<EncryptedMessage, 'ciphertext'>): string | null {
+  return decodeEnvelope(message.ciphertext).header.senderKeyId ?? null;
+}
+
+/**
+ * Decrypt a group message with its sender's sender key
+ * @param message - Stored message row; its recipient id is the conversation id
+ */
+export async function decryptGroupMessage(message: EncryptedMessage, senderKey: SenderKey): Promise<string> {
+  if (message.envelopeVersion !== GROUP_ENVELOPE_VERSION) {
+    throw new Error(`Not a group message envelope (version ${message.envelopeVersion})`);
+  }
+  if (
+    senderKey.senderId !== message.senderId ||
+    senderKey.conversationId !== message.recipientId ||
+    groupMessageSenderKeyId(message) !== senderKey.id
+  ) {
+    throw new Error('Message was not encrypted under this sender key');
+  }
+
+  return await openEnvelope(message, await groupMessageKey(senderKey, message.id));
+}
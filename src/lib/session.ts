@@ -0,0 +1,909 @@
+/**
+ * Session layer for forward-secret messaging
+ * X3DH initial key agreement and Double Ratchet sessions built on Web Crypto
+ * X25519, HKDF and HMAC. All state lives in the EncryptDB IndexedDB database.
+ */
+
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  computeKeyId,
+  decodeEnvelope,
+  decryptMessage,
+  DEVICE_ENVELOPE_VERSION,
+  DeviceKey,
+  EncryptedMessage,
+  EnvelopeHeader,
+  generateContentKey,
+  hkdf,
+  IdentityPrivateKey,
+  KeyWrapAlgorithm,
+  keyWrapAlgorithm,
+  MessageRecipient,
+  openEnvelope,
+  RatchetHeader,
+  sealEnvelope,
+  SESSION_ENVELOPE_VERSION,
+  signData,
+  verifyData,
+  wrapContentKey,
+  X3DHInit,
+} from './crypto';
+import { getAllRecords, getRecord, putRecord } from './keyStore';
+
+// Maximum number of message keys skipped in a single chain
+const MAX_SKIP = 1000;
+// Sessions kept per peer (concurrent initiations create more than one)
+const MAX_SESSIONS_PER_PEER = 5;
+export const ONE_TIME_PREKEY_BATCH = 20;
+
+const X3DH_INFO = 'TrustStream X3DH';
+const ROOT_KEY_INFO = 'TrustStream Ratchet';
+const MESSAGE_KEY_INFO = 'TrustStream Message Keys';
+
+// Public keys are Base64 raw X25519 points; private keys are non-extractable and
+// stored in IndexedDB as CryptoKeys
+interface X25519KeyPair {
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * Our own X3DH key material as persisted in the `prekeys` store
+ */
+export interface LocalPrekeys {
+  // Owning device id (a user id for prekeys from before per-device sessions)
+  userId: string;
+  identityKey: X25519KeyPair;
+  signedPreKeyId: number;
+  signedPreKey: X25519KeyPair;
+  oneTimePreKeys: Record<number, X25519KeyPair>;
+  nextOneTimePreKeyId: number;
+}
+
+/**
+ * A peer's published prekeys, with at most one claimed one-time prekey
+ */
+export interface PrekeyBundle {
+  deviceId: string;
+  identityKey: string;
+  signedPreKeyId: number;
+  signedPreKey: string;
+  signedPreKeySignature: string;
+  oneTimePreKeyId: number | null;
+  oneTimePreKey: string | null;
+}
+
+// Root and chain keys are non-extractable HMAC keys, message keys HKDF keys
+interface RatchetState {
+  sessionId: string;
+  associatedData: string;
+  rootKey: CryptoKey;
+  sendingRatchetKey: X25519KeyPair;
+  receivingRatchetKey: string | null;
+  sendingChainKey: CryptoKey | null;
+  receivingChainKey: CryptoKey | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skippedKeys: Record<string, CryptoKey>;
+  // Sent with every message until the peer replies, so they can build the session
+  pendingInit: X3DHInit | null;
+}
+
+interface SessionRecord {
+  id: string;
+  activeSessionId: string;
+  sessions: Record<string, RatchetState>;
+}
+
+/**
+ * The message key of a ratchet message was used up by an earlier decryption
+ */
+export class MessageKeyUsedError extends Error {
+  constructor() {
+    super('Message key was already used on this device');
+    this.name = 'MessageKeyUsedError';
+  }
+}
+
+function sessionRecordId(ownerId: string, peerId: string): string {
+  return `${ownerId}:${peerId}`;
+}
+
+function concatBytes(...parts: (ArrayBuffer | Uint8Array)[]): Uint8Array {
+  const arrays = parts.map((part) => (part instanceof Uint8Array ? part : new Uint8Array(part)));
+  const result = new Uint8Array(arrays.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of arrays) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Serialize session work per peer: ratchet steps must never interleave
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+function withSessionLock<T>(lockId: string, task: () => Promise<T>): Promise<T> {
+  const previous = sessionLocks.get(lockId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  sessionLocks.set(lockId, next);
+  next
+    .finally(() => {
+      if (sessionLocks.get(lockId) === next) sessionLocks.delete(lockId);
+    })
+    .catch(() => undefined);
+  return next;
+}
+
+async function generateX25519KeyPair(): Promise<X25519KeyPair> {
+  // The public half of a generated pair stays exportable
+  const keyPair = (await globalThis.crypto.subtle.generateKey({ name: 'X25519' }, false, [
+    'deriveBits',
+  ])) as CryptoKeyPair;
+
+  const publicKey = await globalThis.crypto.subtle.exportKey('raw', keyPair.publicKey);
+  return { publicKey: arrayBufferToBase64(publicKey), privateKey: keyPair.privateKey };
+}
+
+async function diffieHellman(ownKey: CryptoKey, publicKey: string): Promise<ArrayBuffer> {
+  const peerKey = await globalThis.crypto.subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(publicKey),
+    { name: 'X25519' },
+    true,
+    []
+  );
+
+  return await globalThis.crypto.subtle.deriveBits({ name: 'X25519', public: peerKey }, ownKey, 256);
+}
+
+function importHmacKey(key: ArrayBuffer | Uint8Array): Promise<CryptoKey> {
+  return globalThis.crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+}
+
+function importMessageKey(key: ArrayBuffer | Uint8Array): Promise<CryptoKey> {
+  return globalThis.crypto.subtle.importKey('raw', key, 'HKDF', false, ['deriveBits']);
+}
+
+async function hmac(key: CryptoKey, data: ArrayBuffer | Uint8Array): Promise<ArrayBuffer> {
+  return await globalThis.crypto.subtle.sign('HMAC', key, data);
+}
+
+// KDF_RK: new root key and chain key from the current root key and a DH output.
+// This is HKDF with the root key as salt, spelled out because Web Crypto only takes
+// the salt as bytes: extract is an HMAC under the root key, then two expand blocks.
+async function deriveRootKey(rootKey: CryptoKey, dhOutput: ArrayBuffer): Promise<[CryptoKey, CryptoKey]> {
+  const pseudoRandomKey = await importHmacKey(await hmac(rootKey, dhOutput));
+  const info = new TextEncoder().encode(ROOT_KEY_INFO);
+  const first = await hmac(pseudoRandomKey, concatBytes(info, new Uint8Array([0x01])));
+  const second = await hmac(pseudoRandomKey, concatBytes(first, info, new Uint8Array([0x02])));
+  return [await importHmacKey(first), await importHmacKey(second)];
+}
+
+// KDF_CK: next chain key and a message key from the current chain key
+async function deriveChainKey(chainKey: CryptoKey): Promise<[CryptoKey, CryptoKey]> {
+  const messageKey = await hmac(chainKey, new Uint8Array([0x01]));
+  const nextChainKey = await hmac(chainKey, new Uint8Array([0x02]));
+  return [await importHmacKey(nextChainKey), await importMessageKey(messageKey)];
+}
+
+// Each message key is used once, so AES key and IV are both derived from it
+async function messageKeyCipher(messageKey: CryptoKey): Promise<{ key: CryptoKey; iv: Uint8Array }> {
+  const output = new Uint8Array(
+    await globalThis.crypto.subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(32),
+        info: new TextEncoder().encode(MESSAGE_KEY_INFO),
+      },
+      messageKey,
+      44 * 8
+    )
+  );
+  const key = await globalThis.crypto.subtle.importKey('raw', output.slice(0, 32), 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  return { key, iv: output.slice(32) };
+}
+
+function ratchetAssociatedData(state: RatchetState, header: RatchetHeader, context: string): Uint8Array {
+  const encoder = new TextEncoder();
+  return concatBytes(
+    base64ToArrayBuffer(state.associatedData),
+    encoder.encode(JSON.stringify(header)),
+    encoder.encode(context)
+  );
+}
+
+// X3DH bundle signature covers the device, its identity key and the signed prekey
+function encodeBundleForSignature(
+  deviceId: string,
+  identityKey: string,
+  signedPreKeyId: number,
+  signedPreKey: string
+): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify(['X3DH-device-bundle', deviceId, identityKey, signedPreKeyId, signedPreKey])
+  );
+}
+
+/**
+ * Retrieve our own prekeys from IndexedDB
+ * @param ownerId - Device id (user id for sessions from before per-device sessions)
+ */
+export async function getLocalPrekeys(ownerId: string): Promise<LocalPrekeys | null> {
+  return (await getRecord<LocalPrekeys>('prekeys', ownerId)) ?? null;
+}
+
+/**
+ * Generate and store a fresh X3DH identity key and signed prekey for a device
+ */
+export async function generatePrekeys(deviceId: string): Promise<LocalPrekeys> {
+  const prekeys: LocalPrekeys = {
+    userId: deviceId,
+    identityKey: await generateX25519KeyPair(),
+    signedPreKeyId: 1,
+    signedPreKey: await generateX25519KeyPair(),
+    oneTimePreKeys: {},
+    nextOneTimePreKeyId: 1,
+  };
+  await putRecord('prekeys', prekeys);
+  return prekeys;
+}
+
+/**
+ * Generate another batch of one-time prekeys and keep their private halves locally
+ * @returns Public halves to publish, with their key ids
+ */
+export async function generateOneTimePrekeys(
+  deviceId: string,
+  count: number = ONE_TIME_PREKEY_BATCH
+): Promise<{ keyId: number; publicKey: string }[]> {
+  const prekeys = await getLocalPrekeys(deviceId);
+  if (!prekeys) throw new Error('No local prekeys to extend');
+
+  const published: { keyId: number; publicKey: string }[] = [];
+  for (let i = 0; i < count; i++) {
+    const keyId = prekeys.nextOneTimePreKeyId++;
+    const keyPair = await generateX25519KeyPair();
+    prekeys.oneTimePreKeys[keyId] = keyPair;
+    published.push({ keyId, publicKey: keyPair.publicKey });
+  }
+
+  await putRecord('prekeys', prekeys);
+  return published;
+}
+
+/**
+ * Sign our device, identity key and signed prekey with the account's signing key
+ */
+export async function signPrekeyBundle(prekeys: LocalPrekeys, signingKey: CryptoKey): Promise<string> {
+  return await signData(
+    encodeBundleForSignature(
+      prekeys.userId,
+      prekeys.identityKey.publicKey,
+      prekeys.signedPreKeyId,
+      prekeys.signedPreKey.publicKey
+    ),
+    signingKey
+  );
+}
+
+/**
+ * Verify a peer device's bundle against the owner's published signing key
+ */
+export async function verifyPrekeyBundle(bundle: PrekeyBundle, signingPublicKey: CryptoKey): Promise<boolean> {
+  return await verifyData(
+    encodeBundleForSignature(
+      bundle.deviceId,
+      bundle.identityKey,
+      bundle.signedPreKeyId,
+      bundle.signedPreKey
+    ),
+    bundle.signedPreKeySignature,
+    signingPublicKey
+  );
+}
+
+async function getSessionRecord(ownerId: string, peerId: string): Promise<SessionRecord | null> {
+  return (await getRecord<SessionRecord>('sessions', sessionRecordId(ownerId, peerId))) ?? null;
+}
+
+async function saveSession(ownerId: string, peerId: string, state: RatchetState): Promise<void> {
+  const record = (await getSessionRecord(ownerId, peerId)) ?? {
+    id: sessionRecordId(ownerId, peerId),
+    activeSessionId: state.sessionId,
+    sessions: {},
+  };
+
+  // Re-insert so the most recently used sessions are the last keys
+  delete record.sessions[state.sessionId];
+  record.sessions[state.sessionId] = state;
+  record.activeSessionId = state.sessionId;
+
+  const sessionIds = Object.keys(record.sessions);
+  for (const staleId of sessionIds.slice(0, Math.max(0, sessionIds.length - MAX_SESSIONS_PER_PEER))) {
+    delete record.sessions[staleId];
+  }
+
+  await putRecord('sessions', record);
+}
+
+// Prekeys and sessions as stored before private keys and ratchet secrets became CryptoKeys
+type StoredKeyPair = { publicKey: string; privateKey: CryptoKey | string };
+type StoredPrekeys = Omit<LocalPrekeys, 'identityKey' | 'signedPreKey' | 'oneTimePreKeys'> & {
+  identityKey: StoredKeyPair;
+  signedPreKey: StoredKeyPair;
+  oneTimePreKeys: Record<number, StoredKeyPair>;
+};
+type StoredRatchetState = Omit<
+  RatchetState,
+  'rootKey' | 'sendingRatchetKey' | 'sendingChainKey' | 'receivingChainKey' | 'skippedKeys'
+> & {
+  rootKey: CryptoKey | string;
+  sendingRatchetKey: StoredKeyPair;
+  sendingChainKey: CryptoKey | string | null;
+  receivingChainKey: CryptoKey | string | null;
+  skippedKeys: Record<string, CryptoKey | string>;
+};
+type StoredSessionRecord = Omit<SessionRecord, 'sessions'> & { sessions: Record<string, StoredRatchetState> };
+
+async function migrateKeyPair(keyPair: StoredKeyPair): Promise<X25519KeyPair> {
+  if (typeof keyPair.privateKey !== 'string') return keyPair as X25519KeyPair;
+  const privateKey = await globalThis.crypto.subtle.importKey(
+    'pkcs8',
+    base64ToArrayBuffer(keyPair.privateKey),
+    { name: 'X25519' },
+    false,
+    ['deriveBits']
+  );
+  return { publicKey: keyPair.publicKey, privateKey };
+}
+
+async function migrateSecret(
+  key: CryptoKey | string,
+  importKey: (key: ArrayBuffer) => Promise<CryptoKey>
+): Promise<CryptoKey> {
+  return typeof key === 'string' ? await importKey(base64ToArrayBuffer(key)) : key;
+}
+
+/**
+ * Convert prekeys and sessions stored by older versions, whose private keys were
+ * base64 PKCS#8 and ratchet secrets raw base64, into non-extractable CryptoKeys
+ */
+export async function migrateSessionKeys(): Promise<void> {
+  const migration = await getRecord<{ pending: boolean }>('meta', 'sessionKeyMigration');
+  if (!migration?.pending) return;
+
+  for (const stored of await getAllRecords<StoredPrekeys>('prekeys')) {
+    const oneTimePreKeys: Record<number, X25519KeyPair> = {};
+    for (const [keyId, keyPair] of Object.entries(stored.oneTimePreKeys)) {
+      oneTimePreKeys[Number(keyId)] = await migrateKeyPair(keyPair);
+    }
+    await putRecord('prekeys', {
+      ...stored,
+      identityKey: await migrateKeyPair(stored.identityKey),
+      signedPreKey: await migrateKeyPair(stored.signedPreKey),
+      oneTimePreKeys,
+    } satisfies LocalPrekeys);
+  }
+
+  for (const record of await getAllRecords<StoredSessionRecord>('sessions')) {
+    const sessions: Record<string, RatchetState> = {};
+    for (const [sessionId, state] of Object.entries(record.sessions)) {
+      const skippedKeys: Record<string, CryptoKey> = {};
+      for (const [id, messageKey] of Object.entries(state.skippedKeys)) {
+        skippedKeys[id] = await migrateSecret(messageKey, importMessageKey);
+      }
+      sessions[sessionId] = {
+        ...state,
+        rootKey: await migrateSecret(state.rootKey, importHmacKey),
+        sendingRatchetKey: await migrateKeyPair(state.sendingRatchetKey),
+        sendingChainKey: state.sendingChainKey && (await migrateSecret(state.sendingChainKey, importHmacKey)),
+        receivingChainKey:
+          state.receivingChainKey && (await migrateSecret(state.receivingChainKey, importHmacKey)),
+        skippedKeys,
+      };
+    }
+    await putRecord('sessions', { ...record, sessions } satisfies SessionRecord);
+  }
+
+  await putRecord('meta', { name: 'sessionKeyMigration', pending: false });
+}
+
+/**
+ * Check whether we can already encrypt to this peer without a new key agreement
+ */
+export async function hasSession(ownerId: string, peerId: string): Promise<boolean> {
+  const record = await getSessionRecord(ownerId, peerId);
+  return !!record?.sessions[record.activeSessionId]?.sendingChainKey;
+}
+
+/**
+ * Start a session as the initiator (X3DH sender side + RatchetInitAlice)
+ * @param ownerId - Current user
+ * @param peerId - User the session is with
+ * @param bundle - Peer's prekey bundle, already verified with verifyPrekeyBundle
+ */
+export async function initiateSession(ownerId: string, peerId: string, bundle: PrekeyBundle): Promise<void> {
+  const prekeys = await getLocalPrekeys(ownerId);
+  if (!prekeys) throw new Error('No local identity key for X3DH');
+
+  await withSessionLock(sessionRecordId(ownerId, peerId), async () => {
+    const ephemeralKey = await generateX25519KeyPair();
+
+    const dhOutputs = [
+      await diffieHellman(prekeys.identityKey.privateKey, bundle.signedPreKey),
+      await diffieHellman(ephemeralKey.privateKey, bundle.identityKey),
+      await diffieHellman(ephemeralKey.privateKey, bundle.signedPreKey),
+    ];
+    if (bundle.oneTimePreKey) {
+      dhOutputs.push(await diffieHellman(ephemeralKey.privateKey, bundle.oneTimePreKey));
+    }
+
+    const sharedSecret = await hkdf(
+      concatBytes(new Uint8Array(32).fill(0xff), ...dhOutputs),
+      new Uint8Array(32),
+      X3DH_INFO,
+      32
+    );
+
+    const sendingRatchetKey = await generateX25519KeyPair();
+    const [rootKey, sendingChainKey] = await deriveRootKey(
+      await importHmacKey(sharedSecret),
+      await diffieHellman(sendingRatchetKey.privateKey, bundle.signedPreKey)
+    );
+
+    await saveSession(ownerId, peerId, {
+      sessionId: ephemeralKey.publicKey,
+      associatedData: arrayBufferToBase64(
+        concatBytes(
+          base64ToArrayBuffer(prekeys.identityKey.publicKey),
+          base64ToArrayBuffer(bundle.identityKey)
+        ).buffer
+      ),
+      rootKey,
+      sendingRatchetKey,
+      receivingRatchetKey: bundle.signedPreKey,
+      sendingChainKey,
+      receivingChainKey: null,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skippedKeys: {},
+      pendingInit: {
+        identityKey: prekeys.identityKey.publicKey,
+        ephemeralKey: ephemeralKey.publicKey,
+        signedPreKeyId: bundle.signedPreKeyId,
+        oneTimePreKeyId: bundle.oneTimePreKeyId,
+      },
+    });
+  });
+}
+
+// X3DH receiver side + RatchetInitBob; consumes the one-time prekey on success.
+// The init comes from an unauthenticated header, so its identity key must be the
+// one the sending device published in its signed bundle.
+async function acceptSession(
+  ownerId: string,
+  peerId: string,
+  init: X3DHInit,
+  senderBundle: PrekeyBundle | null
+): Promise<{ state: RatchetState; prekeys: LocalPrekeys }> {
+  if (!senderBundle || senderBundle.deviceId !== peerId) {
+    throw new Error('Session init from a device without a verified prekey bundle');
+  }
+  if (senderBundle.identityKey !== init.identityKey) {
+    throw new Error('Session init does not match the sending device\'s published identity key');
+  }
+
+  const prekeys = await getLocalPrekeys(ownerId);
+  if (!prekeys || prekeys.signedPreKeyId !== init.signedPreKeyId) {
+    throw new Error('Signed prekey for this session is not available');
+  }
+
+  const dhOutputs = [
+    await diffieHellman(prekeys.signedPreKey.privateKey, init.identityKey),
+    await diffieHellman(prekeys.identityKey.privateKey, init.ephemeralKey),
+    await diffieHellman(prekeys.signedPreKey.privateKey, init.ephemeralKey),
+  ];
+  if (init.oneTimePreKeyId !== null) {
+    const oneTimePreKey = prekeys.oneTimePreKeys[init.oneTimePreKeyId];
+    if (!oneTimePreKey) throw new Error('One-time prekey for this session was already used');
+    dhOutputs.push(await diffieHellman(oneTimePreKey.privateKey, init.ephemeralKey));
+    delete prekeys.oneTimePreKeys[init.oneTimePreKeyId];
+  }
+
+  const sharedSecret = await hkdf(
+    concatBytes(new Uint8Array(32).fill(0xff), ...dhOutputs),
+    new Uint8Array(32),
+    X3DH_INFO,
+    32
+  );
+
+  return {
+    prekeys,
+    state: {
+      sessionId: init.ephemeralKey,
+      associatedData: arrayBufferToBase64(
+        concatBytes(
+          base64ToArrayBuffer(init.identityKey),
+          base64ToArrayBuffer(prekeys.identityKey.publicKey)
+        ).buffer
+      ),
+      rootKey: await importHmacKey(sharedSecret),
+      sendingRatchetKey: prekeys.signedPreKey,
+      receivingRatchetKey: null,
+      sendingChainKey: null,
+      receivingChainKey: null,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skippedKeys: {},
+      pendingInit: null,
+    },
+  };
+}
+
+async function skipMessageKeys(state: RatchetState, until: number): Promise<void> {
+  if (state.receiveCount + MAX_SKIP < until) {
+    throw new Error('Too many skipped messages');
+  }
+  if (!state.receivingChainKey) return;
+
+  while (state.receiveCount < until) {
+    const [chainKey, messageKey] = await deriveChainKey(state.receivingChainKey);
+    state.receivingChainKey = chainKey;
+    state.skippedKeys[`${state.receivingRatchetKey}:${state.receiveCount}`] = messageKey;
+    state.receiveCount++;
+  }
+}
+
+async function dhRatchet(state: RatchetState, header: RatchetHeader): Promise<void> {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.receiveCount = 0;
+  state.receivingRatchetKey = header.ratchetKey;
+
+  [state.rootKey, state.receivingChainKey] = await deriveRootKey(
+    state.rootKey,
+    await diffieHellman(state.sendingRatchetKey.privateKey, state.receivingRatchetKey)
+  );
+  state.sendingRatchetKey = await generateX25519KeyPair();
+  [state.rootKey, state.sendingChainKey] = await deriveRootKey(
+    state.rootKey,
+    await diffieHellman(state.sendingRatchetKey.privateKey, state.receivingRatchetKey)
+  );
+}
+
+/**
+ * Encrypt bytes with the active session's next sending message key
+ * @param plaintext - Bytes to encrypt (the message's AES content key)
+ * @param context - Extra associated data, e.g. the message id
+ */
+export async function sessionEncrypt(
+  ownerId: string,
+  peerId: string,
+  plaintext: ArrayBuffer,
+  context: string
+): Promise<{ header: RatchetHeader; ciphertext: string }> {
+  return await withSessionLock(sessionRecordId(ownerId, peerId), async () => {
+    const record = await getSessionRecord(ownerId, peerId);
+    const state = record?.sessions[record.activeSessionId];
+    if (!state?.sendingChainKey) throw new Error('No session with this peer');
+
+    const [chainKey, messageKey] = await deriveChainKey(state.sendingChainKey);
+    const header: RatchetHeader = {
+      sessionId: state.sessionId,
+      ratchetKey: state.sendingRatchetKey.publicKey,
+      previousCount: state.previousSendCount,
+      count: state.sendCount,
+      ...(state.pendingInit ? { init: state.pendingInit } : {}),
+    };
+    state.sendingChainKey = chainKey;
+    state.sendCount++;
+
+    const { key, iv } = await messageKeyCipher(messageKey);
+    const ciphertext = await globalThis.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: ratchetAssociatedData(state, header, context) },
+      key,
+      plaintext
+    );
+
+    await saveSession(ownerId, peerId, state);
+    return { header, ciphertext: arrayBufferToBase64(ciphertext) };
+  });
+}
+
+/**
+ * Decrypt bytes sent through a session, creating it from the X3DH init if needed.
+ * State changes are only persisted once decryption succeeds.
+ * @param senderBundle - Peer device's published bundle, already verified with
+ *   verifyPrekeyBundle; required to accept an init
+ * @param keep - Runs on the decrypted bytes before the message key is marked used;
+ *   if it fails nothing is persisted and the message can be decrypted again
+ */
+export async function sessionDecrypt(
+  ownerId: string,
+  peerId: string,
+  header: RatchetHeader,
+  ciphertext: string,
+  context: string,
+  senderBundle: PrekeyBundle | null = null,
+  keep?: (plaintext: ArrayBuffer) => Promise<void>
+): Promise<ArrayBuffer> {
+  return await withSessionLock(sessionRecordId(ownerId, peerId), async () => {
+    const record = await getSessionRecord(ownerId, peerId);
+    const stored = record?.sessions[header.sessionId];
+
+    let state: RatchetState;
+    let consumedPrekeys: LocalPrekeys | null = null;
+    if (stored) {
+      state = structuredClone(stored);
+    } else if (header.init) {
+      ({ state, prekeys: consumedPrekeys } = await acceptSession(ownerId, peerId, header.init, senderBundle));
+    } else {
+      throw new Error('Unknown session');
+    }
+
+    let messageKey = state.skippedKeys[`${header.ratchetKey}:${header.count}`];
+    if (messageKey) {
+      delete state.skippedKeys[`${header.ratchetKey}:${header.count}`];
+    } else if (header.ratchetKey === state.receivingRatchetKey && header.count < state.receiveCount) {
+      throw new MessageKeyUsedError();
+    } else {
+      if (header.ratchetKey !== state.receivingRatchetKey) {
+        await skipMessageKeys(state, header.previousCount);
+        await dhRatchet(state, header);
+      }
+      await skipMessageKeys(state, header.count);
+      [state.receivingChainKey, messageKey] = await deriveChainKey(state.receivingChainKey!);
+      state.receiveCount++;
+    }
+
+    const { key, iv } = await messageKeyCipher(messageKey);
+    const plaintext = await globalThis.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: ratchetAssociatedData(state, header, context) },
+      key,
+      base64ToArrayBuffer(ciphertext)
+    );
+    await keep?.(plaintext);
+
+    // The peer has our reply chain once we decrypt anything they sent
+    state.pendingInit = null;
+    if (consumedPrekeys) {
+      await putRecord('prekeys', consumedPrekeys);
+    }
+    // Saving makes this the active session for sending. A new one gets here only
+    // after its init matched the peer's published bundle and the message decrypted.
+    await saveSession(ownerId, peerId, state);
+    return plaintext;
+  });
+}
+
+/**
+ * The device a ratchet message claims to come from, as looked up on the server
+ */
+export interface SenderDevice {
+  id: string;
+  // Owner according to the `devices` table, null if the device is unknown
+  userId: string | null;
+  // Published bundle verified with verifyPrekeyBundle, only needed to accept a session init
+  bundle: PrekeyBundle | null;
+}
+
+/**
+ * A device the AES key is encrypted for: through the device session when one
+ * exists, otherwise wrapped to the device's registered X25519 key
+ */
+export interface DeviceRecipient {
+  id: string;
+  publicKey: CryptoKey;
+  hasSession: boolean;
+}
+
+/**
+ * Encrypt a message once and give every device of both parties a copy of the
+ * AES key (envelope version 3). Identity copies (typically the sender's own)
+ * keep history readable after restoring keys on a new device.
+ * @param message - Plain text message to encrypt
+ * @param context - Message id, parties and sending device, bound to the ciphertext as associated data
+ * @param identities - Parties whose identity public key gets a wrapped copy
+ * @param devices - Active devices of both parties
+ */
+export async function encryptDeviceMessage(
+  message: string,
+  context: { messageId: string; senderId: string; recipientId: string; senderDeviceId: string },
+  identities: MessageRecipient[],
+  devices: DeviceRecipient[]
+): Promise<{
+  ciphertext: string;
+  iv: string;
+  encryptedKeys: Record<string, string>;
+  envelopeVersion: number;
+}> {
+  const contentKey = generateContentKey();
+  const encryptedKeys: Record<string, string> = {};
+  const keyIds: Record<string, string> = {};
+  const wrapAlgorithms: Record<string, KeyWrapAlgorithm> = {};
+  const ratchets: Record<string, RatchetHeader> = {};
+
+  const staticRecipients = [...identities, ...devices.filter((device) => !device.hasSession)];
+  for (const recipient of staticRecipients) {
+    encryptedKeys[recipient.id] = await wrapContentKey(contentKey, recipient.publicKey);
+    keyIds[recipient.id] = await computeKeyId(recipient.publicKey);
+    wrapAlgorithms[recipient.id] = keyWrapAlgorithm(recipient.publicKey);
+  }
+  for (const device of devices.filter((device) => device.hasSession)) {
+    const { header, ciphertext } = await sessionEncrypt(
+      context.senderDeviceId,
+      device.id,
+      contentKey,
+      context.messageId
+    );
+    encryptedKeys[device.id] = ciphertext;
+    ratchets[device.id] = header;
+  }
+
+  const header: EnvelopeHeader = {
+    version: DEVICE_ENVELOPE_VERSION,
+    suite: 'MULTI-DEVICE/AES-256-GCM',
+    senderId: context.senderId,
+    recipientId: context.recipientId,
+    messageId: context.messageId,
+    keyIds,
+    wrapAlgorithms,
+    senderDeviceId: context.senderDeviceId,
+    ratchets,
+  };
+  const { ciphertext, iv } = await sealEnvelope(message, header, contentKey);
+
+  return { ciphertext, iv, encryptedKeys, envelopeVersion: DEVICE_ENVELOPE_VERSION };
+}
+
+let messageBodyKey: Promise<CryptoKey> | null = null;
+
+// Non-extractable AES key that seals decrypted ratchet messages on this device, created on first use
+function getMessageBodyKey(): Promise<CryptoKey> {
+  if (!messageBodyKey) {
+    messageBodyKey = (async () => {
+      const record = await getRecord<{ key: CryptoKey }>('meta', 'messageBodyKey');
+      if (record) return record.key;
+
+      const key = await globalThis.crypto.subtle.generateKey(
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+      await putRecord('meta', { name: 'messageBodyKey', key });
+      return key;
+    })();
+    messageBodyKey.catch(() => {
+      messageBodyKey = null;
+    });
+  }
+  return messageBodyKey;
+}
+
+// Decrypted ratchet message as persisted in the `messageBodies` store
+interface StoredMessageBody {
+  // `${ownerId}:${messageId}`
+  id: string;
+  iv: string;
+  ciphertext: string;
+}
+
+async function storeMessageBody(ownerId: string, messageId: string, plaintext: string): Promise<void> {
+  const id = `${ownerId}:${messageId}`;
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await globalThis.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+    await getMessageBodyKey(),
+    new TextEncoder().encode(plaintext)
+  );
+  const record: StoredMessageBody = {
+    id,
+    iv: arrayBufferToBase64(iv),
+    ciphertext: arrayBufferToBase64(ciphertext),
+  };
+  await putRecord('messageBodies', record);
+}
+
+async function loadMessageBody(ownerId: string, messageId: string): Promise<string | null> {
+  const id = `${ownerId}:${messageId}`;
+  const record = await getRecord<StoredMessageBody>('messageBodies', id);
+  if (!record) return null;
+
+  const plaintext = await globalThis.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToArrayBuffer(record.iv), additionalData: new TextEncoder().encode(id) },
+    await getMessageBodyKey(),
+    base64ToArrayBuffer(record.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// Decrypt a ratchet-carried copy of the AES key and open the message. The same row
+// can arrive via fetch and realtime at once, so each message is ratcheted only once.
+// Message keys are deleted after use and never stored, so the plain text is sealed
+// under a device key and stored before the session advances; history stays readable
+// after a reload without keeping any key that could decrypt other messages.
+async function decryptRatchetCopy(
+  message: EncryptedMessage,
+  ownerId: string,
+  peerId: string,
+  ratchet: RatchetHeader | undefined,
+  encryptedKey: string | undefined,
+  senderBundle: PrekeyBundle | null
+): Promise<string> {
+  return await withSessionLock(`message:${message.id}`, async () => {
+    const stored = await loadMessageBody(ownerId, message.id);
+    if (stored !== null) return stored;
+
+    if (!ratchet || !encryptedKey) {
+      throw new Error('Session envelope without ratchet data');
+    }
+
+    let plaintext = '';
+    await sessionDecrypt(ownerId, peerId, ratchet, encryptedKey, message.id, senderBundle, async (contentKey) => {
+      plaintext = await openEnvelope(message, contentKey);
+      await storeMessageBody(ownerId, message.id, plaintext);
+    });
+    return plaintext;
+  });
+}
+
+/**
+ * Decrypt any stored message for the current user. Ratchet-encrypted copies go
+ * through the user (version 2) or device (version 3) session, everything else
+ * through decryptMessage.
+ * @param senderDevice - The device named in a version 3 header; it must belong to
+ *   the sender, and its bundle is needed when the message opens a new session
+ *   (user sessions have no published bundles anymore, so they cannot be opened)
+ * @returns Decrypted plain text message, or null if the message carries no key for this user
+ */
+export async function decryptSessionMessage(
+  message: EncryptedMessage,
+  userId: string,
+  privateKeys: IdentityPrivateKey[],
+  device?: DeviceKey,
+  senderDevice: SenderDevice | null = null
+): Promise<string | null> {
+  if (message.envelopeVersion === SESSION_ENVELOPE_VERSION && message.recipientId === userId) {
+    const { header } = decodeEnvelope(message.ciphertext);
+    return await decryptRatchetCopy(
+      message,
+      userId,
+      message.senderId,
+      header.ratchet,
+      message.encryptedKeys?.[userId],
+      null
+    );
+  }
+
+  if (message.envelopeVersion === DEVICE_ENVELOPE_VERSION && device) {
+    const { header } = decodeEnvelope(message.ciphertext);
+    const ratchet = header.ratchets?.[device.id];
+    if (ratchet && header.senderDeviceId) {
+      // Otherwise one user's session could pass for a message from another
+      if (senderDevice?.id !== header.senderDeviceId || senderDevice.userId !== message.senderId) {
+        throw new Error('Sending device does not belong to the message sender');
+      }
+      return await decryptRatchetCopy(
+        message,
+        device.id,
+        header.senderDeviceId,
+        ratchet,
+        message.encryptedKeys?.[device.id],
+        senderDevice.bundle
+      );
+    }
+  }
+
+  return await decryptMessage(message, userId, privateKeys, device);
+}
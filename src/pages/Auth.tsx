@@ -34,15 +34,16 @@ export default function Auth() {
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   
-  const { signIn, signUp, user, loading } = useAuth();
+  const { signIn, signUp, user, hasLocalKey, loading } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
-    if (user) {
-      navigate('/chat');
+    // Without keys on this device, offer to restore them from a backup first
+    if (user && hasLocalKey !== null) {
+      navigate(hasLocalKey ? '/chat' : '/restore');
     }
-  }, [user, navigate]);
+  }, [user, hasLocalKey, navigate]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
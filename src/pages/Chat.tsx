@@ -1,44 +1,271 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
-import { Shield, LogOut, Users, Send, Lock } from 'lucide-react';
+import { Shield, LogOut, Users, MessagesSquare, Send, Lock, ShieldCheck, ShieldQuestion, ShieldX, ShieldAlert, ShieldOff, KeyRound, Paperclip, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { encryptMessage, decryptMessage, importPublicKey } from '@/lib/crypto';
+import { EncryptedMessage, GROUP_ENVELOPE_VERSION, importPublicKey, KeyType } from '@/lib/crypto';
+import { cryptoWorker } from '@/lib/cryptoWorker';
+import { fetchActiveDevices, prepareDeviceRecipients, resolveSenderDevice } from '@/lib/devices';
+import {
+  canEditSettings,
+  Conversation,
+  ConversationMetadata,
+  decryptConversationMetadata,
+  ensureSenderKey,
+  fetchConversation,
+  fetchConversations,
+  fetchSenderKeys,
+  findSenderKey,
+  memberRole,
+} from '@/lib/groups';
+import {
+  fetchMessagePage,
+  fetchMessagesAfter,
+  HistoryCursor,
+  HistoryScope,
+  historyScopeKey,
+} from '@/lib/messageHistory';
+import { messageConversationKey, MessageSubscriptionHandlers, subscribeToUserMessages } from '@/lib/realtime';
+import { SenderKeyDistribution } from '@/lib/senderKeys';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
+import { KeyBackupDialog } from '@/components/KeyBackupDialog';
+import { IdentityTransferDialog } from '@/components/IdentityTransferDialog';
+import { DevicesDialog } from '@/components/DevicesDialog';
+import { VerificationDialog } from '@/components/VerificationDialog';
+import { KeyRotationDialog } from '@/components/KeyRotationDialog';
+import { RevokeKeyDialog } from '@/components/RevokeKeyDialog';
+import { AttachmentView } from '@/components/AttachmentView';
+import { MessageList, MessageListHandle } from '@/components/MessageList';
+import { CreateGroupDialog } from '@/components/CreateGroupDialog';
+import { GroupMembersDialog } from '@/components/GroupMembersDialog';
+import { GroupSettingsDialog } from '@/components/GroupSettingsDialog';
+import {
+  AttachmentDescriptor,
+  clearAttachmentPreviews,
+  decodeMessageBody,
+  deleteAttachments,
+  encodeMessageBody,
+  formatFileSize,
+  MAX_ATTACHMENT_SIZE,
+  MessageBody,
+  uploadAttachment,
+} from '@/lib/attachments';
+import {
+  currentSigningKeys,
+  fetchSigningKeys,
+  fetchVerifiedRevocations,
+  SigningKey,
+  VerifiedRevocation,
+} from '@/lib/revocation';
+import { auditProfileKey, AuditResult } from '@/lib/keyTransparency';
+import {
+  acknowledgeKeyChanges,
+  checkPinnedKeys,
+  ContactRecord,
+  hasUnacknowledgedKeyChange,
+  KeyChange,
+  profileKeys,
+} from '@/lib/contacts';
 
 interface Profile {
   id: string;
   username: string;
   public_key: string;
+  key_type: string;
+  key_revoked_at: string | null;
+  signing_public_key: string | null;
+  signing_key_published_at: string | null;
 }
 
+// 'unsigned': the sender had published a signing key when the message was sent but it
+// carries no signature, so it may have been stripped; 'unverified': the sender had none
+type SignatureStatus = 'verified' | 'unverified' | 'unsigned' | 'forged';
+
 interface Message {
   id: string;
   sender_id: string;
-  recipient_id: string;
+  // Exactly one of recipient_id and conversation_id is set
+  recipient_id: string | null;
+  conversation_id: string | null;
   ciphertext: string;
   iv: string;
   encrypted_key: string;
+  encrypted_keys: Record<string, string> | null;
+  envelope_version: number;
   created_at: string;
+  signature: string | null;
   sender?: Profile;
   decrypted?: string;
+  attachments?: AttachmentDescriptor[];
+  verification?: SignatureStatus;
+  // Set when the message was signed with a key after that key was revoked
+  revokedKey?: VerifiedRevocation;
+}
+
+function toEncryptedMessage(msg: Message): EncryptedMessage {
+  return {
+    id: msg.id,
+    senderId: msg.sender_id,
+    recipientId: msg.recipient_id ?? msg.conversation_id!,
+    envelopeVersion: msg.envelope_version,
+    ciphertext: msg.ciphertext,
+    iv: msg.iv,
+    encryptedKey: msg.encrypted_key,
+    encryptedKeys: msg.encrypted_keys,
+  };
+}
+
+// The revocation of the signing key a message was signed with, if the message is newer
+// than it. The envelope is not consulted: whoever holds a revoked key controls it.
+function findRevocationAtSend(
+  msg: Message,
+  signingKey: string | undefined,
+  revocations: VerifiedRevocation[]
+): VerifiedRevocation | undefined {
+  if (!signingKey) return undefined;
+  return revocations.find(
+    (revocation) =>
+      revocation.userId === msg.sender_id &&
+      revocation.signingPublicKey === signingKey &&
+      new Date(msg.created_at) > new Date(revocation.revokedAt)
+  );
+}
+
+// Signing keys and key revocations of the given profiles. Without the history only
+// the current signing keys are known, and no revocations.
+async function loadSigningKeys(profiles: Profile[]): Promise<{
+  signingKeys: Record<string, SigningKey[]>;
+  revocations: VerifiedRevocation[];
+}> {
+  try {
+    const signingKeys = await fetchSigningKeys(profiles);
+    return { signingKeys, revocations: await fetchVerifiedRevocations(signingKeys) };
+  } catch (error) {
+    console.error('Failed to load signing keys and key revocations:', error);
+    return {
+      signingKeys: Object.fromEntries(profiles.map((p) => [p.id, currentSigningKeys(p)])),
+      revocations: [],
+    };
+  }
+}
+
+// Messages interleaved with notices about the contact's key changes
+type TimelineEntry =
+  | { kind: 'message'; at: string; message: Message }
+  | { kind: 'keyChange'; at: string; change: KeyChange };
+
+// A conversation's loaded messages, oldest first, and where its older history starts
+interface ConversationHistory {
+  scope: HistoryScope;
+  messages: Message[];
+  before: HistoryCursor | null;
+}
+
+// Combine loaded and incoming messages without duplicates, in (created_at, id) order
+function mergeMessages(existing: Message[], incoming: Message[]): Message[] {
+  const byId = new Map(existing.map((msg) => [msg.id, msg]));
+  for (const msg of incoming) byId.set(msg.id, msg);
+  return [...byId.values()].sort(
+    (a, b) =>
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id.localeCompare(b.id)
+  );
+}
+
+function timelineKey(entry: TimelineEntry): string {
+  return entry.kind === 'message' ? entry.message.id : `key-change-${entry.at}`;
+}
+
+function KeyChangeNotice({ change, username }: { change: KeyChange; username: string }) {
+  return (
+    <div className="flex justify-center">
+      <p className="text-xs text-muted-foreground bg-muted rounded-full px-3 py-1 flex items-center gap-1">
+        <ShieldAlert className="w-3 h-3 text-destructive" />
+        {username}'s security key changed ·{' '}
+        {new Date(change.detectedAt).toLocaleString([], {
+          dateStyle: 'short',
+          timeStyle: 'short',
+        })}
+      </p>
+    </div>
+  );
+}
+
+function SignatureIndicator({ status }: { status?: SignatureStatus }) {
+  if (status === 'verified') {
+    return <ShieldCheck className="w-3 h-3" aria-label="Verified sender" />;
+  }
+  if (status === 'forged') {
+    return <ShieldX className="w-3 h-3 text-destructive" aria-label="Forged signature" />;
+  }
+  if (status === 'unsigned') {
+    return <ShieldX className="w-3 h-3 text-destructive" aria-label="Missing signature" />;
+  }
+  return <ShieldQuestion className="w-3 h-3" aria-label="Unverified sender" />;
 }
 
 export default function Chat() {
-  const { user, signOut, privateKey, loading: authLoading } = useAuth();
+  const {
+    user,
+    signOut,
+    keyType,
+    hasSigningKey,
+    device,
+    upgradeIdentity,
+    loading: authLoading,
+  } = useAuth();
   const [users, setUsers] = useState<Profile[]>([]);
+  const [ownProfile, setOwnProfile] = useState<Profile | null>(null);
   const [selectedUser, setSelectedUser] = useState<Profile | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Group conversations the user belongs to; a group or a user is selected, never both
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [selectedGroup, setSelectedGroup] = useState<Conversation | null>(null);
+  // Decrypted names, topics and avatars per conversation id
+  const [groupMetadata, setGroupMetadata] = useState<Record<string, ConversationMetadata>>({});
+  // Pinned keys and key changes per contact, from local storage
+  const [contacts, setContacts] = useState<Record<string, ContactRecord>>({});
+  // Key transparency audit results per user id
+  const [keyAudits, setKeyAudits] = useState<Record<string, AuditResult>>({});
+  // Loaded history per conversation, keyed by the other user's id or the group's id
+  const [histories, setHistories] = useState<Record<string, ConversationHistory>>({});
+  // Messages received in conversations while they were not open
+  const [unread, setUnread] = useState<Record<string, number>>({});
+  // The conversation whose older page is being fetched
+  const [loadingOlder, setLoadingOlder] = useState<string | null>(null);
+  const messageListRef = useRef<MessageListHandle>(null);
   const [newMessage, setNewMessage] = useState('');
+  // Files picked for the next message, encrypted and uploaded on send
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [sending, setSending] = useState(false);
+  const [upgrading, setUpgrading] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  const openKey = selectedUser?.id ?? selectedGroup?.id ?? null;
+  const openHistory = openKey ? histories[openKey] : undefined;
+  const messages = openHistory?.messages ?? [];
+  const olderCursor = openHistory?.before ?? null;
+
+  const selectedContact = selectedUser ? contacts[selectedUser.id] : undefined;
+  // Group members whose changed keys the user has not accepted yet
+  const changedGroupMembers = selectedGroup
+    ? users.filter(
+        (u) =>
+          selectedGroup.members.some((member) => member.userId === u.id) &&
+          contacts[u.id] &&
+          hasUnacknowledgedKeyChange(contacts[u.id])
+      )
+    : [];
+  // Sending stays blocked until the user accepts a contact's changed keys
+  const keyChangePending =
+    (!!selectedContact && hasUnacknowledgedKeyChange(selectedContact)) ||
+    changedGroupMembers.length > 0;
+
   useEffect(() => {
     if (!authLoading && !user) {
       navigate('/auth');
@@ -48,25 +275,92 @@ export default function Chat() {
   useEffect(() => {
     if (user) {
       fetchUsers();
-      subscribeToMessages();
+      fetchGroups();
     }
   }, [user]);
 
+  // Realtime keeps loaded conversations current, so only a conversation opened for the
+  // first time is fetched. Replaced every render like the realtime handlers below, so
+  // the effect sees the current histories but only reruns when another one is opened.
+  const loadHistoryRef = useRef<(scope: HistoryScope) => void>();
+  loadHistoryRef.current = (scope) => {
+    if (!histories[historyScopeKey(scope)]) fetchMessages(scope);
+  };
+
+  // Decrypted attachment previews are cached only while their conversation is open. The
+  // cleanup runs before the next conversation's attachments load their previews.
+  useEffect(() => clearAttachmentPreviews, [openKey]);
+
+  const selectedGroupId = selectedGroup?.id;
   useEffect(() => {
-    if (selectedUser && user) {
-      fetchMessages(selectedUser.id);
+    if (!user) return;
+    const scope: HistoryScope | null = selectedUser
+      ? { kind: 'direct', userId: user.id, otherUserId: selectedUser.id }
+      : selectedGroupId
+        ? { kind: 'group', conversationId: selectedGroupId }
+        : null;
+    if (scope) loadHistoryRef.current?.(scope);
+  }, [selectedUser, selectedGroupId, user]);
+
+  // Handlers for the long-lived subscription, replaced every render so they see current state
+  const realtimeHandlersRef = useRef<MessageSubscriptionHandlers>();
+  realtimeHandlersRef.current = {
+    onMessage: (row) => handleRealtimeMessage(row as Message),
+    onJoinedConversation: () => fetchGroups(),
+    onSubscribed: () => resyncHistories(),
+  };
+
+  // Resubscribe when the set of groups changes; unsubscribes on sign-out
+  const userId = user?.id;
+  const conversationIdsKey = conversations
+    .map((c) => c.id)
+    .sort()
+    .join(',');
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToUserMessages(userId, conversationIdsKey ? conversationIdsKey.split(',') : [], {
+      onMessage: (row) => realtimeHandlersRef.current?.onMessage(row),
+      onJoinedConversation: (id) => realtimeHandlersRef.current?.onJoinedConversation(id),
+      onSubscribed: () => realtimeHandlersRef.current?.onSubscribed(),
+    });
+  }, [userId, conversationIdsKey]);
+
+  // Decrypt group names, topics and avatars whenever the conversation list changes
+  useEffect(() => {
+    if (!keyType) return;
+    for (const conversation of conversations) {
+      decryptConversationMetadata(conversation)
+        .then((metadata) => {
+          if (metadata) setGroupMetadata((prev) => ({ ...prev, [conversation.id]: metadata }));
+        })
+        .catch((error) => console.error('Failed to decrypt group metadata:', error));
     }
-  }, [selectedUser, user]);
+  }, [conversations, keyType]);
+
+  // Audit the keys we encrypt to against the transparency log: our own, so we notice
+  // a key published in our name, and the open conversation's contact
+  useEffect(() => {
+    for (const profile of [ownProfile, selectedUser]) {
+      if (!profile) continue;
+      auditProfileKey(profile).then((result) => {
+        if (result.status === 'failed') {
+          console.warn(`Key transparency check failed for ${profile.id}:`, result.reason);
+        }
+        setKeyAudits((prev) => ({ ...prev, [profile.id]: result }));
+      });
+    }
+  }, [ownProfile, selectedUser]);
 
   const fetchUsers = async () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
-        .neq('id', user!.id);
+        .select('*');
 
       if (error) throw error;
-      setUsers(data || []);
+      await pinProfileKeys(data || []);
+      setUsers((data || []).filter((p) => p.id !== user!.id));
+      setOwnProfile(data?.find((p) => p.id === user!.id) ?? null);
     } catch (error: any) {
       console.error('Error fetching users:', error);
       toast({
@@ -77,56 +371,234 @@ export default function Chat() {
     }
   };
 
-  const fetchMessages = async (otherUserId: string) => {
+  const fetchGroups = async (): Promise<Conversation[]> => {
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .or(`and(sender_id.eq.${user!.id},recipient_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},recipient_id.eq.${user!.id})`)
-        .order('created_at', { ascending: true });
+      const groups = await fetchConversations();
+      setConversations(groups);
+      // Forget the history of groups we are no longer in
+      const groupIds = new Set(groups.map((c) => c.id));
+      setHistories((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(
+            ([, { scope }]) => scope.kind === 'direct' || groupIds.has(scope.conversationId)
+          )
+        )
+      );
+      return groups;
+    } catch (error) {
+      console.error('Error fetching groups:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load groups',
+        variant: 'destructive',
+      });
+      return [];
+    }
+  };
 
-      if (error) throw error;
+  // Replace a conversation with a freshly fetched copy, keeping the selection
+  const applyConversation = (conversation: Conversation) => {
+    setConversations((prev) => prev.map((c) => (c.id === conversation.id ? conversation : c)));
+    setSelectedGroup((current) => (current?.id === conversation.id ? conversation : current));
+  };
 
-      // Fetch sender profiles separately
-      const senderIds = [...new Set(data?.map(m => m.sender_id) || [])];
-      const { data: profiles } = await supabase
-        .from('profiles')
-        .select('*')
-        .in('id', senderIds);
-
-      const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
-
-      // Decrypt messages
-      const decryptedMessages = await Promise.all(
-        (data || []).map(async (msg) => {
-          try {
-            let decrypted = undefined;
-            if (msg.recipient_id === user!.id && privateKey) {
-              decrypted = await decryptMessage(
-                msg.ciphertext,
-                msg.iv,
-                msg.encrypted_key,
-                privateKey
-              );
-            }
-            return { 
-              ...msg, 
-              sender: profileMap.get(msg.sender_id),
-              decrypted 
-            };
-          } catch (error) {
-            console.error('Failed to decrypt message:', error);
-            return { 
-              ...msg, 
-              sender: profileMap.get(msg.sender_id),
-              decrypted: '[Decryption failed]' 
-            };
-          }
-        })
-      );
+  const closeGroup = () => {
+    setSelectedGroup(null);
+    fetchGroups();
+  };
 
-      setMessages(decryptedMessages as Message[]);
-    } catch (error: any) {
+  // Reload a group after its membership changed; it disappears if we are no longer in it
+  const refreshGroup = async (conversationId: string) => {
+    try {
+      const group = await fetchConversation(conversationId);
+      if (group) {
+        applyConversation(group);
+      } else {
+        closeGroup();
+      }
+    } catch (error) {
+      console.error('Error refreshing group:', error);
+    }
+  };
+
+  const groupName = (conversation: Conversation) =>
+    groupMetadata[conversation.id]?.name ?? conversation.legacyName ?? 'Encrypted group';
+
+  const selectUser = (profile: Profile) => {
+    setSelectedGroup(null);
+    setUnread((prev) => ({ ...prev, [profile.id]: 0 }));
+    setSelectedUser(profile);
+  };
+
+  const selectGroup = (conversation: Conversation) => {
+    setSelectedUser(null);
+    setUnread((prev) => ({ ...prev, [conversation.id]: 0 }));
+    setSelectedGroup(conversation);
+  };
+
+  const handleGroupCreated = async (conversationId: string) => {
+    const created = (await fetchGroups()).find((c) => c.id === conversationId);
+    if (created) selectGroup(created);
+  };
+
+  // Pin contacts' keys on first sight and record any later change (trust on first use)
+  const pinProfileKeys = async (profiles: Profile[]) => {
+    const updates: Record<string, ContactRecord> = {};
+    for (const profile of profiles) {
+      if (profile.id === user!.id) continue;
+      try {
+        updates[profile.id] = await checkPinnedKeys(user!.id, profile.id, await profileKeys(profile));
+      } catch (error) {
+        console.error('Failed to check pinned keys:', error);
+      }
+    }
+    setContacts((prev) => ({ ...prev, ...updates }));
+  };
+
+  // Unwrap the AES key addressed to us or this device (static copy or ratchet session), or
+  // derive it from the sender's sender key for group messages, and decrypt in the crypto
+  // worker that holds our keys. Ratchet copies are checked against the sending device's
+  // owner, and a new session against its published bundle.
+  const decryptForCurrentUser = async (
+    msg: Message,
+    senderKeys: SenderKeyDistribution[] = [],
+    sender?: Profile
+  ): Promise<MessageBody | undefined> => {
+    if (!keyType) return undefined;
+
+    const encrypted = toEncryptedMessage(msg);
+    let decrypted: string | null;
+    if (msg.envelope_version === GROUP_ENVELOPE_VERSION) {
+      const senderKey = findSenderKey(senderKeys, encrypted);
+      decrypted = senderKey ? await cryptoWorker.decryptGroupMessage(encrypted, senderKey) : null;
+    } else {
+      const senderDevice = device
+        ? await resolveSenderDevice(encrypted, device.id, sender?.signing_public_key ?? null)
+        : null;
+      decrypted = await cryptoWorker.decryptMessage(encrypted, senderDevice);
+    }
+    return decrypted === null ? undefined : decodeMessageBody(decrypted);
+  };
+
+  // Check the signature against the signing keys the sender had when the message was
+  // sent: the current one, or one a later rotation replaced. Returns the key that verified.
+  const verifySender = async (
+    msg: Message,
+    signingKeys: SigningKey[] = []
+  ): Promise<{ status: SignatureStatus; signingKey?: string }> => {
+    if (signingKeys.length === 0) return { status: 'unverified' };
+    // Everyone with a signing key signs every message, so a signature missing from a
+    // message sent after the sender's first key was published was removed
+    if (!msg.signature) {
+      const firstPublished = Math.min(...signingKeys.map((key) => new Date(key.publishedAt).getTime()));
+      return { status: new Date(msg.created_at).getTime() < firstPublished ? 'unverified' : 'unsigned' };
+    }
+
+    const fields = {
+      ciphertext: msg.ciphertext,
+      iv: msg.iv,
+      senderId: msg.sender_id,
+      recipientId: msg.recipient_id ?? msg.conversation_id!,
+      createdAt: msg.created_at,
+    };
+    try {
+      for (const key of signingKeys) {
+        if (key.retiredAt && new Date(msg.created_at) > new Date(key.retiredAt)) continue;
+        if (await cryptoWorker.verifyMessageSignature(fields, msg.signature, key.publicKey)) {
+          return { status: 'verified', signingKey: key.publicKey };
+        }
+      }
+      return { status: 'forged' };
+    } catch (error) {
+      console.error('Failed to verify message signature:', error);
+      return { status: 'forged' };
+    }
+  };
+
+  // Attach sender profiles, signature checks, revocation warnings and decrypted bodies
+  const decorateMessages = async (
+    rows: Message[],
+    senderKeys: SenderKeyDistribution[] = []
+  ): Promise<Message[]> => {
+    // Fetch sender profiles separately
+    const senderIds = [...new Set(rows.map(m => m.sender_id))];
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('*')
+      .in('id', senderIds);
+
+    await pinProfileKeys(profiles || []);
+    const { signingKeys, revocations } = await loadSigningKeys(profiles || []);
+    const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
+
+    // Decrypt messages
+    return await Promise.all(
+      rows.map(async (msg) => {
+        const sender = profileMap.get(msg.sender_id);
+        const { status: verification, signingKey } = await verifySender(
+          msg,
+          signingKeys[msg.sender_id]
+        );
+        const revokedKey = findRevocationAtSend(msg, signingKey, revocations);
+        try {
+          const body = await decryptForCurrentUser(msg, senderKeys, sender);
+          return { 
+            ...msg, 
+            sender,
+            decrypted: body?.text,
+            attachments: body?.attachments,
+            verification,
+            revokedKey
+          };
+        } catch (error) {
+          // Ratchet messages read before a reload cannot be decrypted again
+          const keyUsed = error instanceof Error && error.name === 'MessageKeyUsedError';
+          if (!keyUsed) console.error('Failed to decrypt message:', error);
+          return { 
+            ...msg, 
+            sender,
+            decrypted: keyUsed ? '[Message key already used on this device]' : '[Decryption failed]',
+            verification,
+            revokedKey
+          };
+        }
+      })
+    );
+  };
+
+  // Fetch and decrypt one page of a conversation's history, the newest unless a cursor is given
+  const fetchHistoryPage = async (scope: HistoryScope, before?: HistoryCursor) => {
+    const page = await fetchMessagePage(scope, before);
+    const senderKeys =
+      scope.kind === 'group' ? await fetchSenderKeys(scope.conversationId, user!.id) : [];
+    return {
+      messages: await decorateMessages(page.rows as Message[], senderKeys),
+      before: page.before,
+    };
+  };
+
+  // Add decrypted messages to a conversation's history if it is loaded
+  const appendToHistory = (key: string, incoming: Message[]) => {
+    setHistories((prev) =>
+      prev[key]
+        ? { ...prev, [key]: { ...prev[key], messages: mergeMessages(prev[key].messages, incoming) } }
+        : prev
+    );
+  };
+
+  const fetchMessages = async (scope: HistoryScope) => {
+    const key = historyScopeKey(scope);
+    try {
+      const page = await fetchHistoryPage(scope);
+      setHistories((prev) => ({
+        ...prev,
+        [key]: {
+          scope,
+          messages: mergeMessages(prev[key]?.messages ?? [], page.messages),
+          before: page.before,
+        },
+      }));
+    } catch (error) {
       console.error('Error fetching messages:', error);
       toast({
         title: 'Error',
@@ -136,86 +608,249 @@ export default function Chat() {
     }
   };
 
-  const subscribeToMessages = () => {
-    const channel = supabase
-      .channel('messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-        },
-        async (payload) => {
-          const newMsg = payload.new as Message;
-          
-          // Only process if it's relevant to current conversation
-          if (selectedUser && 
-              ((newMsg.sender_id === selectedUser.id && newMsg.recipient_id === user!.id) ||
-               (newMsg.sender_id === user!.id && newMsg.recipient_id === selectedUser.id))) {
-            
-            // Fetch sender profile
-            const { data: senderData } = await supabase
-              .from('profiles')
-              .select('*')
-              .eq('id', newMsg.sender_id)
-              .single();
-
-            let decrypted = undefined;
-            if (newMsg.recipient_id === user!.id && privateKey) {
-              try {
-                decrypted = await decryptMessage(
-                  newMsg.ciphertext,
-                  newMsg.iv,
-                  newMsg.encrypted_key,
-                  privateKey
-                );
-              } catch (error) {
-                console.error('Failed to decrypt real-time message:', error);
-                decrypted = '[Decryption failed]';
-              }
+  // Prepend the page before the oldest loaded message of the open conversation
+  const fetchOlderMessages = async () => {
+    if (!openKey || !openHistory?.before || loadingOlder === openKey) return;
+    const key = openKey;
+    const { scope, before } = openHistory;
+
+    setLoadingOlder(key);
+    try {
+      const page = await fetchHistoryPage(scope, before);
+      setHistories((prev) =>
+        prev[key]
+          ? {
+              ...prev,
+              [key]: { ...prev[key], messages: mergeMessages(prev[key].messages, page.messages), before: page.before },
             }
+          : prev
+      );
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load older messages',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingOlder((current) => (current === key ? null : current));
+    }
+  };
+
+  // Route a message from the realtime channel to its conversation, whichever one is open
+  const handleRealtimeMessage = async (row: Message) => {
+    const key = messageConversationKey(row, user!.id);
+    if (row.sender_id !== user!.id && key !== openKey) {
+      setUnread((prev) => ({ ...prev, [key]: (prev[key] ?? 0) + 1 }));
+    }
+    // Conversations that are not loaded fetch their newest page when opened
+    if (!histories[key]) return;
 
-            setMessages((prev) => [...prev, { ...newMsg, sender: senderData, decrypted }]);
-          }
+    try {
+      // The sender may have created or shared their sender key just now
+      const senderKeys = row.conversation_id ? await fetchSenderKeys(row.conversation_id, user!.id) : [];
+      appendToHistory(key, await decorateMessages([row], senderKeys));
+    } catch (error) {
+      console.error('Failed to process real-time message:', error);
+    }
+  };
+
+  // Catch up on messages inserted while the realtime channel was down
+  const resyncHistories = async () => {
+    for (const [key, history] of Object.entries(histories)) {
+      const newest = history.messages[history.messages.length - 1];
+      try {
+        if (!newest) {
+          await fetchMessages(history.scope);
+          continue;
         }
-      )
-      .subscribe();
+        const rows = await fetchMessagesAfter(history.scope, { createdAt: newest.created_at, id: newest.id });
+        if (rows.length === 0) continue;
+
+        const senderKeys =
+          history.scope.kind === 'group' ? await fetchSenderKeys(history.scope.conversationId, user!.id) : [];
+        appendToHistory(key, await decorateMessages(rows as Message[], senderKeys));
+      } catch (error) {
+        console.error('Failed to resynchronize messages:', error);
+      }
+    }
+  };
+
+  // Encrypt a direct message for both parties so it stays readable in our own history
+  const encryptForContact = async (
+    body: string,
+    context: { messageId: string; senderId: string; recipientId: string },
+    contact: Profile
+  ) => {
+    // Import recipient's and our own public key
+    const recipientPublicKey = await importPublicKey(
+      contact.public_key,
+      contact.key_type as KeyType
+    );
+    const senderPublicKey = await importPublicKey(
+      ownProfile!.public_key,
+      ownProfile!.key_type as KeyType
+    );
 
-    return () => {
-      supabase.removeChannel(channel);
+    // Give every active, owner-signed device of both parties a copy, over forward-secret
+    // sessions where the device has prekeys; fall back to identity keys if the peer has
+    // no such devices
+    const signingPublicKeys = {
+      [user!.id]: ownProfile!.signing_public_key,
+      [contact.id]: contact.signing_public_key,
     };
+    const devices = await fetchActiveDevices(signingPublicKeys);
+    return device && !device.revoked && devices.some((d) => d.user_id === contact.id)
+      ? await cryptoWorker.encryptDeviceMessage(
+          body,
+          { ...context, senderDeviceId: device.id },
+          [{ id: user!.id, publicKey: senderPublicKey }],
+          await prepareDeviceRecipients(device, devices, signingPublicKeys)
+        )
+      : await cryptoWorker.encryptMessage(body, context, [
+          { id: contact.id, publicKey: recipientPublicKey },
+          { id: user!.id, publicKey: senderPublicKey },
+        ]);
+  };
+
+  // Encrypt a group message once under our sender key, after making sure every member has it
+  const encryptForGroup = async (body: string, messageId: string, conversation: Conversation) => {
+    const members = await Promise.all(
+      conversation.members.map(async ({ userId: memberId }) => {
+        const profile = memberId === user!.id ? ownProfile : users.find((u) => u.id === memberId);
+        if (!profile) throw new Error(`No profile for group member ${memberId}`);
+        return {
+          id: memberId,
+          publicKey: await importPublicKey(profile.public_key, profile.key_type as KeyType),
+        };
+      })
+    );
+    const ownSenderKey = await ensureSenderKey(conversation, user!.id, members);
+    const { ciphertext, iv, envelopeVersion } = await cryptoWorker.encryptGroupMessage(
+      body,
+      { messageId, senderId: user!.id, conversationId: conversation.id },
+      ownSenderKey
+    );
+    return { ciphertext, iv, encryptedKeys: {} as Record<string, string>, envelopeVersion };
   };
 
   const sendMessage = async () => {
-    if (!newMessage.trim() || !selectedUser || !privateKey) return;
+    if (
+      (!newMessage.trim() && pendingFiles.length === 0) ||
+      (!selectedUser && !selectedGroup) ||
+      !ownProfile ||
+      !keyType
+    ) {
+      return;
+    }
+    // Never encrypt to keys the user hasn't accepted
+    if (keyChangePending) return;
+    // Recipients flag unsigned messages from accounts that publish a signing key
+    if (ownProfile.signing_public_key && !hasSigningKey) {
+      toast({
+        title: 'Signing key missing',
+        description: 'Restore your keys on this device before sending messages.',
+        variant: 'destructive',
+      });
+      return;
+    }
 
+    // Attachments already uploaded, removed again if sending fails
+    const uploadedPaths: string[] = [];
     try {
       setSending(true);
 
-      // Import recipient's public key
-      const recipientPublicKey = await importPublicKey(selectedUser.public_key);
+      // Encrypt to the group's members as they are now, never to someone just removed
+      const group = selectedGroup && (await fetchConversation(selectedGroup.id));
+      if (selectedGroup && !group) {
+        toast({
+          title: 'Not a member',
+          description: `You are no longer a member of ${groupName(selectedGroup)}.`,
+          variant: 'destructive',
+        });
+        closeGroup();
+        return;
+      }
+      if (group) applyConversation(group);
 
-      // Encrypt message
-      const { ciphertext, iv, encryptedKey } = await encryptMessage(
-        newMessage,
-        recipientPublicKey
-      );
+      // Never encrypt to a revoked key; check the server's current state, not our cached profiles
+      const partyIds = group ? group.members.map((member) => member.userId) : [user!.id, selectedUser!.id];
+      const { data: revocationState, error: revocationError } = await supabase
+        .from('profiles')
+        .select('id, key_revoked_at')
+        .in('id', partyIds);
+      if (revocationError) throw revocationError;
+      const revokedParty = revocationState?.find((p) => p.key_revoked_at);
+      if (revokedParty) {
+        const revokedName = users.find((u) => u.id === revokedParty.id)?.username ?? 'A member';
+        toast({
+          title: 'Key revoked',
+          description:
+            revokedParty.id === user!.id
+              ? 'Your key is revoked. Rotate your keys before sending messages.'
+              : `${revokedName}'s key is revoked. Wait until they set up a new key.`,
+          variant: 'destructive',
+        });
+        await fetchUsers();
+        return;
+      }
+
+      // The id is chosen here so it can be bound into the envelope; group messages are
+      // addressed to the conversation
+      const messageId = window.crypto.randomUUID();
+      const destinationId = group ? group.id : selectedUser!.id;
+      const context = { messageId, senderId: user!.id, recipientId: destinationId };
+
+      // Upload attachments encrypted under fresh keys; the keys travel in the encrypted body
+      const attachments: AttachmentDescriptor[] = [];
+      for (const file of pendingFiles) {
+        const attachment = await uploadAttachment(file, context);
+        uploadedPaths.push(attachment.path);
+        attachments.push(attachment);
+      }
+      const body = encodeMessageBody({ text: newMessage, attachments });
+
+      const { ciphertext, iv, encryptedKeys, envelopeVersion } = group
+        ? await encryptForGroup(body, messageId, group)
+        : await encryptForContact(body, context, selectedUser!);
+
+      // Sign ciphertext, parties and timestamp (accounts without a signing key send unsigned)
+      const createdAt = new Date().toISOString();
+      const signature = hasSigningKey
+        ? await cryptoWorker.signMessage({
+            ciphertext,
+            iv,
+            senderId: user!.id,
+            recipientId: destinationId,
+            createdAt,
+          })
+        : null;
 
       // Send to database
       const { error } = await supabase.from('messages').insert({
+        id: messageId,
         sender_id: user!.id,
-        recipient_id: selectedUser.id,
+        recipient_id: selectedUser?.id ?? null,
+        conversation_id: group?.id ?? null,
         ciphertext,
         iv,
-        encrypted_key: encryptedKey,
+        // Device and group envelopes have no per-user recipient copy
+        encrypted_key: encryptedKeys[destinationId] ?? '',
+        encrypted_keys: encryptedKeys,
+        envelope_version: envelopeVersion,
+        signature,
+        created_at: createdAt,
       });
 
       if (error) throw error;
 
       setNewMessage('');
+      setPendingFiles([]);
     } catch (error: any) {
       console.error('Error sending message:', error);
+      deleteAttachments(uploadedPaths).catch((deleteError) => {
+        console.error('Failed to delete attachments of unsent message:', deleteError);
+      });
       toast({
         title: 'Error',
         description: 'Failed to send message',
@@ -226,12 +861,76 @@ export default function Chat() {
     }
   };
 
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Let the same file be picked again after removing it
+    e.target.value = '';
+
+    const oversized = files.filter((file) => file.size > MAX_ATTACHMENT_SIZE);
+    if (oversized.length > 0) {
+      toast({
+        title: 'File too large',
+        description: `${oversized.map((file) => file.name).join(', ')} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`,
+        variant: 'destructive',
+      });
+    }
+    setPendingFiles((prev) => [...prev, ...files.filter((file) => file.size <= MAX_ATTACHMENT_SIZE)]);
+  };
+
+  // Move an RSA account to an X25519 identity; older messages keep decrypting with the RSA key
+  const handleUpgradeKeys = async () => {
+    setUpgrading(true);
+    try {
+      await upgradeIdentity();
+      await fetchUsers();
+      toast({
+        title: 'Keys upgraded',
+        description: 'New messages to you are now encrypted with X25519.',
+      });
+    } catch (error) {
+      console.error('Error upgrading keys:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to upgrade encryption keys',
+        variant: 'destructive',
+      });
+    } finally {
+      setUpgrading(false);
+    }
+  };
+
   if (authLoading || !user) {
     return <div className="min-h-screen bg-background flex items-center justify-center">
       <p>Loading...</p>
     </div>;
   }
 
+  // Accept the contact's new keys; the timeline keeps the notice
+  const handleAcknowledgeKeyChange = async () => {
+    if (!selectedUser) return;
+    try {
+      const contact = await acknowledgeKeyChanges(user.id, selectedUser.id);
+      setContacts((prev) => ({ ...prev, [selectedUser.id]: contact }));
+    } catch (error) {
+      console.error('Error acknowledging key change:', error);
+    }
+  };
+
+  const revokedKeyMessages = messages.filter((msg) => msg.revokedKey && msg.sender_id !== user.id);
+
+  // Key changes from before the loaded history show up once their page is loaded
+  const historyStart = olderCursor && messages.length > 0 ? new Date(messages[0].created_at).getTime() : 0;
+  const timeline: TimelineEntry[] = [
+    ...messages.map((message) => ({ kind: 'message' as const, at: message.created_at, message })),
+    ...(selectedContact?.keyChanges ?? [])
+      .filter((change) => new Date(change.detectedAt).getTime() >= historyStart)
+      .map((change) => ({
+        kind: 'keyChange' as const,
+        at: change.detectedAt,
+        change,
+      })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
   return (
     <div className="h-screen bg-background flex flex-col">
       {/* Header */}
@@ -247,28 +946,86 @@ export default function Chat() {
             </div>
           </div>
           
-          <Button variant="ghost" size="sm" onClick={signOut}>
-            <LogOut className="w-4 h-4 mr-2" />
-            Sign Out
-          </Button>
+          <div className="flex items-center gap-2">
+            {keyType === 'rsa' && (
+              <Button variant="outline" size="sm" onClick={handleUpgradeKeys} disabled={upgrading}>
+                <KeyRound className="w-4 h-4 mr-2" />
+                {upgrading ? 'Upgrading...' : 'Upgrade Keys'}
+              </Button>
+            )}
+            {keyType === 'ec' && <KeyRotationDialog onRotated={fetchUsers} />}
+            {ownProfile && !ownProfile.key_revoked_at && (
+              <RevokeKeyDialog
+                publicKey={ownProfile.public_key}
+                signingPublicKey={ownProfile.signing_public_key}
+                onRevoked={fetchUsers}
+              />
+            )}
+            <KeyBackupDialog userId={user.id} />
+            <IdentityTransferDialog userId={user.id} />
+            <DevicesDialog userId={user.id} />
+            <Button variant="ghost" size="sm" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
       <div className="flex-1 flex overflow-hidden">
-        {/* Users Sidebar */}
+        {/* Conversations Sidebar */}
         <aside className="w-64 border-r border-border bg-card">
-          <div className="p-4 border-b border-border">
+          <div className="p-4 border-b border-border flex items-center justify-between">
             <h2 className="font-semibold flex items-center gap-2">
-              <Users className="w-4 h-4" />
-              Users
+              <MessagesSquare className="w-4 h-4" />
+              Conversations
             </h2>
+            <CreateGroupDialog userId={user.id} users={users} onCreated={handleGroupCreated} />
           </div>
           <ScrollArea className="h-[calc(100vh-8rem)]">
             <div className="p-2 space-y-1">
+              {conversations.length > 0 && (
+                <p className="px-3 pt-2 pb-1 text-xs font-medium uppercase text-muted-foreground">
+                  Groups
+                </p>
+              )}
+              {conversations.map((c) => (
+                <button
+                  key={c.id}
+                  onClick={() => selectGroup(c)}
+                  className={`w-full p-3 rounded-lg text-left transition-colors ${
+                    selectedGroup?.id === c.id
+                      ? 'bg-secondary'
+                      : 'hover:bg-secondary/50'
+                  }`}
+                >
+                  <div className="flex items-center gap-3">
+                    <Avatar className="w-8 h-8">
+                      {groupMetadata[c.id]?.avatar && <AvatarImage src={groupMetadata[c.id].avatar} alt="" />}
+                      <AvatarFallback className="bg-gradient-primary text-white text-sm">
+                        <Users className="w-4 h-4" />
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{groupName(c)}</p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Lock className="w-3 h-3" />
+                        {c.members.length} members
+                      </p>
+                    </div>
+                    {unread[c.id] > 0 && <Badge className="shrink-0">{unread[c.id]}</Badge>}
+                  </div>
+                </button>
+              ))}
+              {conversations.length > 0 && (
+                <p className="px-3 pt-3 pb-1 text-xs font-medium uppercase text-muted-foreground">
+                  Direct messages
+                </p>
+              )}
               {users.map((u) => (
                 <button
                   key={u.id}
-                  onClick={() => setSelectedUser(u)}
+                  onClick={() => selectUser(u)}
                   className={`w-full p-3 rounded-lg text-left transition-colors ${
                     selectedUser?.id === u.id
                       ? 'bg-secondary'
@@ -288,6 +1045,7 @@ export default function Chat() {
                         Encrypted
                       </p>
                     </div>
+                    {unread[u.id] > 0 && <Badge className="shrink-0">{unread[u.id]}</Badge>}
                   </div>
                 </button>
               ))}
@@ -297,72 +1055,273 @@ export default function Chat() {
 
         {/* Chat Area */}
         <main className="flex-1 flex flex-col">
-          {selectedUser ? (
+          {selectedUser || selectedGroup ? (
             <>
               <div className="border-b border-border bg-card px-4 py-3">
                 <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <Avatar className="w-8 h-8">
-                      <AvatarFallback className="bg-gradient-primary text-white">
-                        {selectedUser.username[0].toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <h3 className="font-semibold">{selectedUser.username}</h3>
-                      <p className="text-xs text-muted-foreground">Online</p>
+                  {selectedGroup ? (
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Avatar className="w-8 h-8">
+                        {groupMetadata[selectedGroup.id]?.avatar && (
+                          <AvatarImage src={groupMetadata[selectedGroup.id].avatar} alt="" />
+                        )}
+                        <AvatarFallback className="bg-gradient-primary text-white">
+                          <Users className="w-4 h-4" />
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <h3 className="font-semibold truncate">{groupName(selectedGroup)}</h3>
+                        {groupMetadata[selectedGroup.id]?.topic && (
+                          <p className="text-sm text-muted-foreground truncate">
+                            {groupMetadata[selectedGroup.id].topic}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground truncate">
+                          {selectedGroup.members
+                            .map(({ userId: id }) =>
+                              id === user.id ? 'You' : users.find((u) => u.id === id)?.username ?? 'Unknown'
+                            )
+                            .join(', ')}
+                        </p>
+                      </div>
                     </div>
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      <Avatar className="w-8 h-8">
+                        <AvatarFallback className="bg-gradient-primary text-white">
+                          {selectedUser!.username[0].toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <h3 className="font-semibold">{selectedUser!.username}</h3>
+                        <p className="text-xs text-muted-foreground">Online</p>
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    {ownProfile && selectedUser && <VerificationDialog ownProfile={ownProfile} contact={selectedUser} />}
+                    {selectedGroup && canEditSettings(memberRole(selectedGroup, user.id)) && (
+                      <GroupSettingsDialog
+                        conversationId={selectedGroup.id}
+                        metadata={groupMetadata[selectedGroup.id] ?? null}
+                        userId={user.id}
+                        onSaved={() => refreshGroup(selectedGroup.id)}
+                      />
+                    )}
+                    {selectedGroup && (
+                      <GroupMembersDialog
+                        conversation={selectedGroup}
+                        name={groupName(selectedGroup)}
+                        userId={user.id}
+                        users={users}
+                        onChanged={() => refreshGroup(selectedGroup.id)}
+                        onLeft={closeGroup}
+                      />
+                    )}
+                    <Badge variant="secondary" className="gap-1">
+                      <Lock className="w-3 h-3" />
+                      E2E Encrypted
+                    </Badge>
                   </div>
-                  <Badge variant="secondary" className="gap-1">
-                    <Lock className="w-3 h-3" />
-                    E2E Encrypted
-                  </Badge>
                 </div>
               </div>
 
-              <ScrollArea className="flex-1 p-4">
-                <div className="space-y-4">
-                  {messages.map((msg) => {
-                    const isOwn = msg.sender_id === user.id;
+              {ownProfile?.key_revoked_at && (
+                <div className="border-b border-destructive/50 bg-destructive/10 px-4 py-2 text-sm flex items-center gap-2">
+                  <ShieldOff className="w-4 h-4 text-destructive shrink-0" />
+                  You revoked your key on {new Date(ownProfile.key_revoked_at).toLocaleString()}.
+                  Rotate your keys to send and receive messages again.
+                </div>
+              )}
+              {selectedUser?.key_revoked_at && (
+                <div className="border-b border-destructive/50 bg-destructive/10 px-4 py-2 text-sm flex items-center gap-2">
+                  <ShieldOff className="w-4 h-4 text-destructive shrink-0" />
+                  {selectedUser.username} revoked their key on{' '}
+                  {new Date(selectedUser.key_revoked_at).toLocaleString()}. You can send messages
+                  again once they set up a new key.
+                </div>
+              )}
+              {[ownProfile, selectedUser].map((profile) => {
+                const audit = profile && keyAudits[profile.id];
+                if (!audit || audit.status !== 'failed') return null;
+                return (
+                  <div
+                    key={`audit-${profile.id}`}
+                    className="border-b border-destructive/50 bg-destructive/10 px-4 py-2 text-sm flex items-center gap-2"
+                  >
+                    <ShieldAlert className="w-4 h-4 text-destructive shrink-0" />
+                    Key transparency check failed for{' '}
+                    {profile.id === user.id ? 'your own key' : `${profile.username}'s key`}:{' '}
+                    {audit.reason}. The server may be showing you a different key than others see.
+                  </div>
+                );
+              })}
+              {selectedUser && revokedKeyMessages.length > 0 && (
+                <div className="border-b border-destructive bg-destructive text-destructive-foreground px-4 py-3 text-sm flex items-center gap-2">
+                  <ShieldAlert className="w-5 h-5 shrink-0" />
+                  <span>
+                    {revokedKeyMessages.length === 1 ? '1 message' : `${revokedKeyMessages.length} messages`} in
+                    this conversation {revokedKeyMessages.length === 1 ? 'was' : 'were'} signed with{' '}
+                    {selectedUser.username}'s key after it was revoked
+                    {revokedKeyMessages[0].revokedKey!.reason && ` (${revokedKeyMessages[0].revokedKey!.reason})`}.
+                    Whoever holds the compromised key may have written{' '}
+                    {revokedKeyMessages.length === 1 ? 'it' : 'them'}.
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    className="ml-auto shrink-0"
+                    onClick={() => messageListRef.current?.scrollToKey(revokedKeyMessages[0].id)}
+                  >
+                    Show
+                  </Button>
+                </div>
+              )}
+              <MessageList
+                key={selectedUser?.id ?? selectedGroup?.id}
+                ref={messageListRef}
+                className="flex-1"
+                items={timeline}
+                getKey={timelineKey}
+                hasOlder={!!olderCursor}
+                loadingOlder={loadingOlder === openKey}
+                onLoadOlder={fetchOlderMessages}
+                renderItem={(entry, { highlighted }) => {
+                  if (entry.kind === 'keyChange') {
                     return (
+                      <KeyChangeNotice
+                        change={entry.change}
+                        username={selectedUser!.username}
+                      />
+                    );
+                  }
+                  const msg = entry.message;
+                  const isOwn = msg.sender_id === user.id;
+                  return (
+                    <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
                       <div
-                        key={msg.id}
-                        className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                        className={`max-w-[70%] rounded-2xl px-4 py-2 ${
+                          isOwn
+                            ? 'bg-gradient-primary text-white'
+                            : 'bg-secondary text-secondary-foreground'
+                        } ${
+                          msg.verification === 'forged' || msg.verification === 'unsigned' || msg.revokedKey
+                            ? 'border-2 border-destructive'
+                            : ''
+                        } ${
+                          highlighted ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''
+                        }`}
                       >
-                        <div
-                          className={`max-w-[70%] rounded-2xl px-4 py-2 ${
-                            isOwn
-                              ? 'bg-gradient-primary text-white'
-                              : 'bg-secondary text-secondary-foreground'
-                          }`}
-                        >
-                  <p className="text-sm break-words">
-                    {isOwn ? (msg.decrypted || newMessage) : (msg.decrypted || '[Encrypted]')}
-                  </p>
-                          <p className={`text-xs mt-1 ${isOwn ? 'text-white/70' : 'text-muted-foreground'}`}>
-                            {new Date(msg.created_at).toLocaleTimeString([], {
-                              hour: '2-digit',
-                              minute: '2-digit',
-                            })}
+                        {selectedGroup && !isOwn && (
+                          <p className="text-xs font-medium mb-1">{msg.sender?.username ?? 'Unknown sender'}</p>
+                        )}
+                        {(msg.decrypted || !msg.attachments?.length) && (
+                          <p className="text-sm break-words">
+                            {msg.decrypted || '[Encrypted]'}
+                          </p>
+                        )}
+                        {msg.attachments?.map((attachment) => (
+                          <AttachmentView key={attachment.path} attachment={attachment} isOwn={isOwn} />
+                        ))}
+                        {msg.verification === 'forged' && (
+                          <p className="text-xs mt-1 font-medium text-destructive">
+                            Signature check failed — this message may not be from {msg.sender?.username ?? 'the sender'}
                           </p>
-                        </div>
+                        )}
+                        {msg.verification === 'unsigned' && (
+                          <p className="text-xs mt-1 font-medium text-destructive">
+                            Signature missing — this message may not be from {msg.sender?.username ?? 'the sender'}
+                          </p>
+                        )}
+                        {msg.revokedKey && (
+                          <p className="text-xs mt-1 font-medium text-destructive">
+                            Signed with a key revoked on {new Date(msg.revokedKey.revokedAt).toLocaleString()}
+                          </p>
+                        )}
+                        <p className={`text-xs mt-1 flex items-center gap-1 ${isOwn ? 'text-white/70' : 'text-muted-foreground'}`}>
+                          {new Date(msg.created_at).toLocaleTimeString([], {
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                          <SignatureIndicator status={msg.verification} />
+                        </p>
                       </div>
-                    );
-                  })}
-                </div>
-              </ScrollArea>
+                    </div>
+                  );
+                }}
+              />
 
               <div className="border-t border-border bg-card p-4">
+                {selectedUser && keyChangePending && (
+                  <div className="mb-3 rounded-lg border border-destructive/50 bg-destructive/10 p-3 flex items-center gap-3">
+                    <ShieldAlert className="w-5 h-5 text-destructive shrink-0" />
+                    <p className="text-sm flex-1">
+                      {selectedUser.username}'s security key changed. This happens when they
+                      reinstall or switch keys, but could also mean someone is intercepting your
+                      messages. Compare safety numbers before sending anything sensitive.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={handleAcknowledgeKeyChange}>
+                      Accept new key
+                    </Button>
+                  </div>
+                )}
+                {changedGroupMembers.length > 0 && (
+                  <div className="mb-3 rounded-lg border border-destructive/50 bg-destructive/10 p-3 flex items-center gap-3">
+                    <ShieldAlert className="w-5 h-5 text-destructive shrink-0" />
+                    <p className="text-sm flex-1">
+                      The security key of {changedGroupMembers.map((u) => u.username).join(', ')}{' '}
+                      changed. Review and accept it in your direct conversation before sending to
+                      this group.
+                    </p>
+                  </div>
+                )}
+                {pendingFiles.length > 0 && (
+                  <div className="mb-2 flex flex-wrap gap-2">
+                    {pendingFiles.map((file, index) => (
+                      <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1 pr-1">
+                        <Paperclip className="w-3 h-3" />
+                        <span className="max-w-[12rem] truncate">{file.name}</span>
+                        <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+                        <button
+                          type="button"
+                          onClick={() => setPendingFiles((prev) => prev.filter((_, i) => i !== index))}
+                          disabled={sending}
+                          aria-label={`Remove ${file.name}`}
+                          className="rounded-full p-0.5 hover:bg-background/50"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
                 <div className="flex gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={handleFilesSelected}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={sending || keyChangePending}
+                    aria-label="Attach files"
+                  >
+                    <Paperclip className="w-4 h-4" />
+                  </Button>
                   <Input
                     placeholder="Type a message..."
                     value={newMessage}
                     onChange={(e) => setNewMessage(e.target.value)}
                     onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
-                    disabled={sending}
+                    disabled={sending || keyChangePending}
                   />
                   <Button
                     onClick={sendMessage}
-                    disabled={sending || !newMessage.trim()}
+                    disabled={sending || keyChangePending || (!newMessage.trim() && pendingFiles.length === 0)}
                     className="bg-gradient-primary"
                   >
                     <Send className="w-4 h-4" />
@@ -370,7 +1329,7 @@ export default function Chat() {
                 </div>
                 <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
                   <Lock className="w-3 h-3" />
-                  Messages are encrypted end-to-end
+                  Messages and attachments are encrypted end-to-end
                 </p>
               </div>
             </>
@@ -382,9 +1341,9 @@ export default function Chat() {
                     <Shield className="w-12 h-12 text-muted-foreground" />
                   </div>
                 </div>
-                <h3 className="text-xl font-semibold">Select a user to start chatting</h3>
+                <h3 className="text-xl font-semibold">Select a conversation to start chatting</h3>
                 <p className="text-muted-foreground max-w-md">
-                  All messages are end-to-end encrypted using RSA-4096 and AES-256-GCM.
+                  All messages are end-to-end encrypted using X25519 and AES-256-GCM.
                   Your private keys never leave your device.
                 </p>
               </div>
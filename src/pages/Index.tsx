@@ -36,7 +36,7 @@ const Index = () => {
               End-to-End Encrypted Messaging
             </p>
             <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-              Secure communication powered by RSA-4096 and AES-256-GCM encryption.
+              Secure communication powered by X25519, Ed25519 and AES-256-GCM encryption.
               Your messages, your privacy. Zero-knowledge architecture ensures your data
               remains yours alone.
             </p>
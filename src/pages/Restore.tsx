@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Shield, KeyRound, FileKey } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { IdentityImportForm } from '@/components/IdentityImportForm';
+import { hasKeyBackup } from '@/lib/keyBackup';
+
+type BackupStatus = 'checking' | 'available' | 'missing';
+
+export default function Restore() {
+  const [passphrase, setPassphrase] = useState('');
+  const [backupStatus, setBackupStatus] = useState<BackupStatus>('checking');
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { user, hasLocalKey, restoreIdentity, loading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    } else if (hasLocalKey) {
+      navigate('/chat');
+    }
+  }, [user, hasLocalKey, loading, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    hasKeyBackup(user.id)
+      .then((exists) => setBackupStatus(exists ? 'available' : 'missing'))
+      .catch((err) => {
+        console.error('Error checking key backup:', err);
+        setBackupStatus('missing');
+      });
+  }, [user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setRestoring(true);
+
+    try {
+      await restoreIdentity(passphrase);
+      toast({
+        title: 'Keys restored',
+        description: 'Your encryption keys are now available on this device.',
+      });
+    } catch (err) {
+      console.error('Error restoring key backup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore keys');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6 animate-fade-in">
+        <div className="text-center space-y-2">
+          <div className="flex justify-center">
+            <div className="bg-gradient-primary p-4 rounded-2xl shadow-secure">
+              <Shield className="w-12 h-12 text-white" />
+            </div>
+          </div>
+          <h1 className="text-4xl font-bold">EncrypTIA</h1>
+          <p className="text-muted-foreground">
+            No encryption keys found on this device
+          </p>
+        </div>
+
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-secure" />
+              Restore Keys
+            </CardTitle>
+            <CardDescription>
+              {backupStatus === 'missing'
+                ? 'This account has no key backup. Import an identity file instead, or continue without your old keys.'
+                : 'Enter your recovery passphrase to decrypt your key backup.'}
+            </CardDescription>
+          </CardHeader>
+
+          <form onSubmit={handleSubmit}>
+            {backupStatus !== 'missing' && (
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="recovery-passphrase">Recovery passphrase</Label>
+                  <Input
+                    id="recovery-passphrase"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    required
+                  />
+                  {error && <p className="text-sm text-destructive">{error}</p>}
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Messages received over forward-secret sessions on your old device stay unreadable;
+                  messages you sent and those encrypted to your identity key are restored.
+                </p>
+              </CardContent>
+            )}
+
+            <CardFooter className="flex flex-col gap-2">
+              {backupStatus !== 'missing' && (
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-primary hover:opacity-90"
+                  disabled={restoring || backupStatus === 'checking'}
+                >
+                  {restoring ? 'Restoring...' : 'Restore Keys'}
+                </Button>
+              )}
+              <Button type="button" variant="ghost" className="w-full" onClick={() => navigate('/chat')}>
+                Continue without restoring
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileKey className="w-5 h-5 text-secure" />
+              Import Identity File
+            </CardTitle>
+            <CardDescription>
+              Use an identity file exported from another browser.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <IdentityImportForm />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
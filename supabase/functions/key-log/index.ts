@@ -0,0 +1,168 @@
+// Key transparency log service: signs tree heads over the key_log table and
+// serves RFC 6962 inclusion and consistency proofs for them, built from the
+// subtree hashes the database keeps in key_log_nodes.
+//
+// Secrets: KEY_LOG_SIGNING_KEY - base64 PKCS#8 Ed25519 private key of the log.
+// Clients are configured with the matching public key (VITE_KEY_LOG_PUBLIC_KEY).
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { inclusionPath, NodeLookup, subproof, treeHash } from "./merkle.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// Run a computation over the tree with the stored nodes it needs. Which nodes are
+// read does not depend on their hashes, so a dry run with placeholders finds them
+// and they are fetched in a single query.
+async function withNodes<T>(
+  supabase: SupabaseClient,
+  compute: (nodes: NodeLookup) => Promise<T>,
+): Promise<T> {
+  const wanted = new Map<string, [number, number]>();
+  const dryRun = await compute((level, index) => {
+    wanted.set(`${level}:${index}`, [level, index]);
+    return new Uint8Array(32);
+  });
+  if (wanted.size === 0) return dryRun;
+
+  const filter = [...wanted.values()]
+    .map(([level, index]) => `and(level.eq.${level},node_index.eq.${index})`)
+    .join(",");
+  const { data, error } = await supabase
+    .from("key_log_nodes")
+    .select("level, node_index, hash")
+    .or(filter);
+  if (error) throw error;
+
+  const loaded = new Map(
+    (data ?? []).map((node) => [`${node.level}:${node.node_index}`, hexToBytes(node.hash)]),
+  );
+  return await compute((level, index) => {
+    const hash = loaded.get(`${level}:${index}`);
+    if (!hash) throw new Error(`Key log node ${level}:${index} is missing`);
+    return hash;
+  });
+}
+
+function encodeTreeHead(treeSize: number, rootHash: string, signedAt: string): Uint8Array {
+  return new TextEncoder().encode(`key-log-tree-head\n${treeSize}\n${rootHash}\n${signedAt}`);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+
+    // Leaf indexes are gap-free, so the last one gives the tree size
+    const { data: last, error } = await supabase
+      .from("key_log")
+      .select("log_index")
+      .order("log_index", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    const size = last ? Number(last.log_index) + 1 : 0;
+
+    const { action, index, treeSize, first, second } = await req.json();
+
+    if (action === "head") {
+      const { data: latest, error: headError } = await supabase
+        .from("key_log_heads")
+        .select("*")
+        .eq("tree_size", size)
+        .maybeSingle();
+      if (headError) throw headError;
+      if (latest) {
+        return json({
+          treeSize: latest.tree_size,
+          rootHash: latest.root_hash,
+          signedAt: latest.signed_at,
+          signature: latest.signature,
+        });
+      }
+
+      const signingKey = await crypto.subtle.importKey(
+        "pkcs8",
+        base64ToBytes(Deno.env.get("KEY_LOG_SIGNING_KEY")!),
+        { name: "Ed25519" },
+        false,
+        ["sign"],
+      );
+      const rootHash = bytesToHex(await withNodes(supabase, (nodes) => treeHash(nodes, 0, size)));
+      const signedAt = new Date().toISOString();
+      const signature = bytesToBase64(
+        new Uint8Array(
+          await crypto.subtle.sign(
+            { name: "Ed25519" },
+            signingKey,
+            encodeTreeHead(size, rootHash, signedAt),
+          ),
+        ),
+      );
+
+      // A concurrent request may have signed the same size first; either head is valid
+      await supabase.from("key_log_heads").upsert(
+        { tree_size: size, root_hash: rootHash, signed_at: signedAt, signature },
+        { onConflict: "tree_size", ignoreDuplicates: true },
+      );
+      return json({ treeSize: size, rootHash, signedAt, signature });
+    }
+
+    if (action === "inclusion") {
+      if (!(Number.isInteger(index) && Number.isInteger(treeSize) && index >= 0 && index < treeSize && treeSize <= size)) {
+        return json({ error: "Invalid inclusion proof request" }, 400);
+      }
+      const proof = await withNodes(supabase, (nodes) => inclusionPath(nodes, index, 0, treeSize));
+      return json({ proof: proof.map(bytesToHex) });
+    }
+
+    if (action === "consistency") {
+      if (!(Number.isInteger(first) && Number.isInteger(second) && first > 0 && first <= second && second <= size)) {
+        return json({ error: "Invalid consistency proof request" }, 400);
+      }
+      const proof = await withNodes(supabase, (nodes) => subproof(nodes, first, 0, second, true));
+      return json({ proof: proof.map(bytesToHex) });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("key-log error:", error);
+    return json({ error: error instanceof Error ? error.message : "Internal error" }, 500);
+  }
+});
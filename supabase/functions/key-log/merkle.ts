@@ -0,0 +1,67 @@
+// RFC 6962 Merkle tree hashes and proofs over the subtree hashes stored in
+// key_log_nodes. Kept free of Deno and Supabase imports so the client test suite
+// can check them against known answers.
+
+export type Hash = Uint8Array;
+
+async function sha256(data: Uint8Array): Promise<Hash> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+async function nodeHash(left: Hash, right: Hash): Promise<Hash> {
+  const data = new Uint8Array(1 + left.length + right.length);
+  data[0] = 0x01;
+  data.set(left, 1);
+  data.set(right, 1 + left.length);
+  return await sha256(data);
+}
+
+// Largest power of two smaller than n (n > 1)
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function isPowerOfTwo(n: number): boolean {
+  return n > 0 && Number.isInteger(Math.log2(n));
+}
+
+// Hash of the complete subtree at (level, node index), from key_log_nodes
+export type NodeLookup = (level: number, index: number) => Hash;
+
+// The algorithms below work on the leaf range [start, start + size). The left part of
+// every split, and every power-of-two range they reach, is a complete subtree whose
+// hash is stored, so a head or proof only needs O(log n) nodes.
+
+// MTH(D[n]) from RFC 6962 section 2.1
+export async function treeHash(nodes: NodeLookup, start: number, size: number): Promise<Hash> {
+  if (size === 0) return await sha256(new Uint8Array());
+  if (isPowerOfTwo(size)) return nodes(Math.log2(size), start / size);
+  const k = splitPoint(size);
+  return await nodeHash(await treeHash(nodes, start, k), await treeHash(nodes, start + k, size - k));
+}
+
+// PATH(m, D[n]) from RFC 6962 section 2.1.1, for leaf start + m
+export async function inclusionPath(nodes: NodeLookup, m: number, start: number, size: number): Promise<Hash[]> {
+  if (size <= 1) return [];
+  const k = splitPoint(size);
+  return m < k
+    ? [...(await inclusionPath(nodes, m, start, k)), await treeHash(nodes, start + k, size - k)]
+    : [...(await inclusionPath(nodes, m - k, start + k, size - k)), await treeHash(nodes, start, k)];
+}
+
+// SUBPROOF(m, D[n], b) from RFC 6962 section 2.1.2
+export async function subproof(
+  nodes: NodeLookup,
+  m: number,
+  start: number,
+  size: number,
+  complete: boolean,
+): Promise<Hash[]> {
+  if (m === size) return complete ? [] : [await treeHash(nodes, start, size)];
+  const k = splitPoint(size);
+  return m <= k
+    ? [...(await subproof(nodes, m, start, k, complete)), await treeHash(nodes, start + k, size - k)]
+    : [...(await subproof(nodes, m - k, start + k, size - k, false)), await treeHash(nodes, start, k)];
+}
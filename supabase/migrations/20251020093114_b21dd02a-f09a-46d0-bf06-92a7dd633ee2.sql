@@ -0,0 +1,5 @@
+-- Store the message AES key wrapped once per party (sender and recipient),
+-- keyed by user id, so senders can decrypt their own outgoing messages.
+-- encrypted_key keeps holding the recipient's copy for older clients.
+ALTER TABLE public.messages
+  ADD COLUMN encrypted_keys JSONB NOT NULL DEFAULT '{}'::jsonb; -- { "<user id>": "<base64 wrapped AES key>" }
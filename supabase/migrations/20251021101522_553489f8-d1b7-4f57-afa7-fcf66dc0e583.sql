@@ -0,0 +1,26 @@
+-- Message signatures: every user publishes an ECDSA P-256 signing key and
+-- signs ciphertext, IV, sender, recipient and timestamp of each message.
+ALTER TABLE public.profiles
+  ADD COLUMN signing_public_key TEXT; -- ECDSA public key in PEM format, NULL for accounts created before signing
+
+ALTER TABLE public.messages
+  ADD COLUMN signature TEXT; -- Base64 encoded ECDSA signature, NULL for unsigned legacy messages
+
+-- Copy the signing key from signup metadata into the profile
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER 
+LANGUAGE plpgsql 
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, username, public_key, signing_public_key)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'username', split_part(NEW.email, '@', 1)),
+    COALESCE(NEW.raw_user_meta_data->>'public_key', ''),
+    NEW.raw_user_meta_data->>'signing_public_key'
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Versioned message envelopes. Rows written before this migration are
+-- version 0 (bare AES-GCM ciphertext); version 1 stores a self-describing
+-- header in front of the ciphertext and binds it as associated data.
+ALTER TABLE public.messages
+  ADD COLUMN envelope_version SMALLINT NOT NULL DEFAULT 0;
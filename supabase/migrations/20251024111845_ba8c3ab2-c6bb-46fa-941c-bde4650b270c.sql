@@ -0,0 +1,76 @@
+-- X3DH prekeys for forward-secret Double Ratchet sessions.
+-- Each user publishes an X25519 identity key and a signed prekey (signed with
+-- profiles.signing_public_key) plus a pool of one-time prekeys that peers
+-- claim, one per new session.
+CREATE TABLE public.prekey_bundles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  identity_key TEXT NOT NULL, -- Base64 raw X25519 identity public key
+  signed_prekey_id INTEGER NOT NULL,
+  signed_prekey TEXT NOT NULL, -- Base64 raw X25519 public key
+  signed_prekey_signature TEXT NOT NULL, -- Base64 ECDSA signature over identity key and signed prekey
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.one_time_prekeys (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key_id INTEGER NOT NULL,
+  public_key TEXT NOT NULL, -- Base64 raw X25519 public key
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, key_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.prekey_bundles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.one_time_prekeys ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for prekey bundles
+-- Bundles are public, like profiles, so anyone can start a session
+CREATE POLICY "Prekey bundles are viewable by everyone"
+  ON public.prekey_bundles FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can publish their own prekey bundle"
+  ON public.prekey_bundles FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own prekey bundle"
+  ON public.prekey_bundles FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for one-time prekeys
+-- Only the owner sees their pool; others go through claim_one_time_prekey
+CREATE POLICY "Users can view their own one-time prekeys"
+  ON public.one_time_prekeys FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can publish their own one-time prekeys"
+  ON public.one_time_prekeys FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own one-time prekeys"
+  ON public.one_time_prekeys FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Atomically hand out (and delete) one one-time prekey of the target user
+CREATE OR REPLACE FUNCTION public.claim_one_time_prekey(target_user UUID)
+RETURNS TABLE (key_id INTEGER, public_key TEXT)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.one_time_prekeys
+  WHERE auth.uid() IS NOT NULL
+    AND one_time_prekeys.user_id = target_user
+    AND one_time_prekeys.key_id = (
+      SELECT p.key_id
+      FROM public.one_time_prekeys p
+      WHERE p.user_id = target_user
+      ORDER BY p.key_id
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+  RETURNING one_time_prekeys.key_id, one_time_prekeys.public_key;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_one_time_prekey(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_one_time_prekey(UUID) TO authenticated;
@@ -0,0 +1,24 @@
+-- Identity key type: RSA-4096 (legacy) or X25519 with Ed25519 signatures
+ALTER TABLE public.profiles
+ADD COLUMN key_type TEXT NOT NULL DEFAULT 'rsa'
+CHECK (key_type IN ('rsa', 'ec'));
+
+-- Record the key type chosen at signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER 
+LANGUAGE plpgsql 
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, username, public_key, key_type, signing_public_key)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'username', split_part(NEW.email, '@', 1)),
+    COALESCE(NEW.raw_user_meta_data->>'public_key', ''),
+    COALESCE(NEW.raw_user_meta_data->>'key_type', 'rsa'),
+    NEW.raw_user_meta_data->>'signing_public_key'
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- Optional server-side backups of identity keys. The key material is encrypted
+-- client-side with AES-256-GCM under a key derived from the user's recovery
+-- passphrase (PBKDF2-SHA256 with a random per-user salt); the server never
+-- sees the passphrase or the plaintext keys.
+CREATE TABLE public.key_backups (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  salt TEXT NOT NULL, -- Base64 PBKDF2 salt
+  iterations INTEGER NOT NULL,
+  iv TEXT NOT NULL, -- Base64 AES-GCM nonce
+  ciphertext TEXT NOT NULL, -- Base64 encrypted key material
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.key_backups ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for key backups
+-- Only the owner can read or change their backup
+CREATE POLICY "Users can view their own key backup"
+  ON public.key_backups FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own key backup"
+  ON public.key_backups FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own key backup"
+  ON public.key_backups FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own key backup"
+  ON public.key_backups FOR DELETE
+  USING (auth.uid() = user_id);
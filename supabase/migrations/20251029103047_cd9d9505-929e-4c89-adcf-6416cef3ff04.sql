@@ -0,0 +1,118 @@
+-- Multi-device accounts. Every browser a user signs in from registers its own
+-- X25519 device key; senders encrypt the message key to all active devices of
+-- both parties.
+CREATE TABLE public.devices (
+  id UUID PRIMARY KEY, -- Generated by the device
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  public_key TEXT NOT NULL, -- X25519 SPKI public key in PEM format
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  revoked BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE INDEX idx_devices_user ON public.devices(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.devices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for devices
+-- Device keys are public, like profiles, so anyone can encrypt to them
+CREATE POLICY "Devices are viewable by everyone"
+  ON public.devices FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can register their own devices"
+  ON public.devices FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND NOT revoked);
+
+-- Revoked devices cannot be changed, so revocation is permanent
+CREATE POLICY "Users can update their own active devices"
+  ON public.devices FOR UPDATE
+  USING (auth.uid() = user_id AND NOT revoked)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Only the name, last-seen time and revocation flag change after registration
+REVOKE UPDATE ON public.devices FROM anon, authenticated;
+GRANT UPDATE (name, last_seen_at, revoked) ON public.devices TO authenticated;
+
+-- Prekeys move from users to devices. Per-user bundles cannot be mapped to a
+-- device, so they are dropped; every device publishes its own on next sign-in.
+DELETE FROM public.one_time_prekeys;
+DELETE FROM public.prekey_bundles;
+
+ALTER TABLE public.prekey_bundles
+  DROP CONSTRAINT prekey_bundles_pkey,
+  ADD COLUMN device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  ADD PRIMARY KEY (device_id);
+
+ALTER TABLE public.one_time_prekeys
+  DROP CONSTRAINT one_time_prekeys_pkey,
+  ADD COLUMN device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  ADD PRIMARY KEY (device_id, key_id);
+
+-- Prekeys may only be published for the user's own, active devices
+DROP POLICY "Users can publish their own prekey bundle" ON public.prekey_bundles;
+DROP POLICY "Users can update their own prekey bundle" ON public.prekey_bundles;
+DROP POLICY "Users can publish their own one-time prekeys" ON public.one_time_prekeys;
+
+CREATE POLICY "Users can publish prekey bundles for their own devices"
+  ON public.prekey_bundles FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.devices d
+      WHERE d.id = prekey_bundles.device_id AND d.user_id = auth.uid() AND NOT d.revoked
+    )
+  );
+
+CREATE POLICY "Users can update prekey bundles of their own devices"
+  ON public.prekey_bundles FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.devices d
+      WHERE d.id = prekey_bundles.device_id AND d.user_id = auth.uid() AND NOT d.revoked
+    )
+  );
+
+CREATE POLICY "Users can delete prekey bundles of their own devices"
+  ON public.prekey_bundles FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can publish one-time prekeys for their own devices"
+  ON public.one_time_prekeys FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.devices d
+      WHERE d.id = one_time_prekeys.device_id AND d.user_id = auth.uid() AND NOT d.revoked
+    )
+  );
+
+-- One-time prekeys are now claimed per device
+DROP FUNCTION public.claim_one_time_prekey(UUID);
+
+CREATE OR REPLACE FUNCTION public.claim_one_time_prekey(target_device UUID)
+RETURNS TABLE (key_id INTEGER, public_key TEXT)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.one_time_prekeys
+  WHERE auth.uid() IS NOT NULL
+    AND one_time_prekeys.device_id = target_device
+    AND one_time_prekeys.key_id = (
+      SELECT p.key_id
+      FROM public.one_time_prekeys p
+      WHERE p.device_id = target_device
+      ORDER BY p.key_id
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+  RETURNING one_time_prekeys.key_id, one_time_prekeys.public_key;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_one_time_prekey(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_one_time_prekey(UUID) TO authenticated;
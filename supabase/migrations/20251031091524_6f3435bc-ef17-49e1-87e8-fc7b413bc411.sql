@@ -0,0 +1,62 @@
+-- Identity keys that have been replaced by a rotation, oldest first per user.
+-- Kept so clients can tell which key an older message was encrypted to.
+CREATE TABLE public.key_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  public_key TEXT NOT NULL, -- Retired public key in PEM format
+  key_type TEXT NOT NULL CHECK (key_type IN ('rsa', 'ec')),
+  retired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_key_history_user ON public.key_history(user_id, retired_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.key_history ENABLE ROW LEVEL SECURITY;
+
+-- History is public like the keys themselves; rows are only written by rotate_identity_key
+CREATE POLICY "Key history is viewable by everyone"
+  ON public.key_history FOR SELECT
+  USING (true);
+
+-- Replace the caller's identity key, recording the previous one in key_history
+CREATE OR REPLACE FUNCTION public.rotate_identity_key(new_public_key TEXT, new_key_type TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_profile public.profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO current_profile
+  FROM public.profiles
+  WHERE id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF current_profile.public_key = new_public_key THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.key_history (user_id, public_key, key_type)
+  VALUES (auth.uid(), current_profile.public_key, current_profile.key_type);
+
+  UPDATE public.profiles
+  SET public_key = new_public_key, key_type = new_key_type
+  WHERE id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_identity_key(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_identity_key(TEXT, TEXT) TO authenticated;
+
+-- Identity keys now only change through rotate_identity_key, so no old key goes unrecorded
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (username) ON public.profiles TO authenticated;
@@ -0,0 +1,106 @@
+-- Revocation of compromised identity keys. A revoked key stays revoked; clients
+-- refuse to encrypt to it until the owner rotates to a new key.
+ALTER TABLE public.profiles
+ADD COLUMN key_revoked_at TIMESTAMP WITH TIME ZONE; -- Set while the current public_key is revoked
+
+CREATE TABLE public.key_revocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  public_key TEXT NOT NULL, -- Revoked public key in PEM format
+  key_type TEXT NOT NULL CHECK (key_type IN ('rsa', 'ec')),
+  statement TEXT NOT NULL, -- JSON revocation statement, as signed
+  signature TEXT NOT NULL, -- Base64 signature of the statement by the owner's signing key
+  revoked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, public_key)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.key_revocations ENABLE ROW LEVEL SECURITY;
+
+-- Revocations must reach every client; rows are only written by revoke_identity_key
+CREATE POLICY "Key revocations are viewable by everyone"
+  ON public.key_revocations FOR SELECT
+  USING (true);
+
+-- Revoke the caller's current identity key with a signed statement naming it
+CREATE OR REPLACE FUNCTION public.revoke_identity_key(statement TEXT, signature TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_profile public.profiles%ROWTYPE;
+  revoked TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO current_profile
+  FROM public.profiles
+  WHERE id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF current_profile.key_revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Key is already revoked';
+  END IF;
+
+  IF (statement::jsonb)->>'userId' IS DISTINCT FROM auth.uid()::text
+    OR (statement::jsonb)->>'publicKey' IS DISTINCT FROM current_profile.public_key THEN
+    RAISE EXCEPTION 'Revocation statement does not name the current key';
+  END IF;
+
+  INSERT INTO public.key_revocations (user_id, public_key, key_type, statement, signature, revoked_at)
+  VALUES (auth.uid(), current_profile.public_key, current_profile.key_type, statement, signature, revoked);
+
+  UPDATE public.profiles
+  SET key_revoked_at = revoked
+  WHERE id = auth.uid();
+
+  RETURN revoked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_identity_key(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_identity_key(TEXT, TEXT) TO authenticated;
+
+-- Rotating to a new key lifts the revocation marker; the revoked key stays recorded
+CREATE OR REPLACE FUNCTION public.rotate_identity_key(new_public_key TEXT, new_key_type TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_profile public.profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO current_profile
+  FROM public.profiles
+  WHERE id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF current_profile.public_key = new_public_key THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.key_history (user_id, public_key, key_type)
+  VALUES (auth.uid(), current_profile.public_key, current_profile.key_type);
+
+  UPDATE public.profiles
+  SET public_key = new_public_key, key_type = new_key_type, key_revoked_at = NULL
+  WHERE id = auth.uid();
+END;
+$$;
@@ -0,0 +1,96 @@
+-- Key transparency log: an append-only Merkle tree (RFC 6962) of every identity
+-- key ever published. Clients check that contacts' keys are included in a signed
+-- tree head and that successive heads extend each other, so the server cannot show
+-- different keys to different users without leaving evidence.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.key_log (
+  log_index BIGINT PRIMARY KEY, -- Leaf position in the tree, from 0
+  user_id UUID NOT NULL, -- No foreign key: entries outlive deleted accounts
+  public_key TEXT NOT NULL,
+  key_type TEXT NOT NULL,
+  leaf_hash TEXT NOT NULL, -- Hex SHA-256 of 0x00 || "<user id>\n<key type>\n<public key>"
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_key_log_user ON public.key_log(user_id, log_index DESC);
+
+-- Tree heads signed by the key-log edge function with the log's Ed25519 key
+CREATE TABLE public.key_log_heads (
+  tree_size BIGINT PRIMARY KEY,
+  root_hash TEXT NOT NULL, -- Hex Merkle tree hash over the first tree_size leaves
+  signed_at TEXT NOT NULL, -- ISO timestamp, as signed
+  signature TEXT NOT NULL, -- Base64 Ed25519 signature
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.key_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.key_log_heads ENABLE ROW LEVEL SECURITY;
+
+-- The log is public; only the trigger below and the edge function write to it
+CREATE POLICY "Key log is viewable by everyone"
+  ON public.key_log FOR SELECT
+  USING (true);
+
+CREATE POLICY "Key log heads are viewable by everyone"
+  ON public.key_log_heads FOR SELECT
+  USING (true);
+
+-- Append a profile's key to the log
+CREATE OR REPLACE FUNCTION public.append_key_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_index BIGINT;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.public_key IS NOT DISTINCT FROM OLD.public_key
+    AND NEW.key_type IS NOT DISTINCT FROM OLD.key_type THEN
+    RETURN NEW;
+  END IF;
+
+  -- Leaf indexes must be gap-free, so appends are serialized
+  PERFORM pg_advisory_xact_lock(hashtext('public.key_log'));
+  SELECT COALESCE(MAX(log_index) + 1, 0) INTO next_index FROM public.key_log;
+
+  INSERT INTO public.key_log (log_index, user_id, public_key, key_type, leaf_hash)
+  VALUES (
+    next_index,
+    NEW.id,
+    NEW.public_key,
+    NEW.key_type,
+    encode(
+      extensions.digest(
+        '\x00'::bytea || convert_to(NEW.id::text || E'\n' || NEW.key_type || E'\n' || NEW.public_key, 'UTF8'),
+        'sha256'
+      ),
+      'hex'
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_profile_key_published
+  AFTER INSERT OR UPDATE OF public_key, key_type ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.append_key_log();
+
+-- Log the keys of existing accounts, oldest first
+INSERT INTO public.key_log (log_index, user_id, public_key, key_type, leaf_hash)
+SELECT
+  ROW_NUMBER() OVER (ORDER BY created_at, id) - 1,
+  id,
+  public_key,
+  key_type,
+  encode(
+    extensions.digest(
+      '\x00'::bytea || convert_to(id::text || E'\n' || key_type || E'\n' || public_key, 'UTF8'),
+      'sha256'
+    ),
+    'hex'
+  )
+FROM public.profiles;
@@ -0,0 +1,30 @@
+-- Encrypted attachments: files are encrypted in the browser with a fresh key and
+-- stored as opaque blobs. Objects live under <sender id>/<recipient id>/..., and only
+-- those two users can read them. The key travels inside the encrypted message body.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', false, 27262976) -- 25 MiB plaintext plus encryption overhead
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own attachments"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Senders and recipients can view attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND auth.uid()::text IN ((storage.foldername(name))[1], (storage.foldername(name))[2])
+  );
+
+CREATE POLICY "Users can delete their own attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
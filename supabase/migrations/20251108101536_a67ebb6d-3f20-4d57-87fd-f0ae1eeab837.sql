@@ -0,0 +1,151 @@
+-- Group conversations. A group message is encrypted once under its sender's
+-- sender key; each sender key is distributed to the other members pairwise,
+-- encrypted to their identity keys, through sender_keys. Only members can see a
+-- conversation, its members, its messages and its attachments.
+CREATE TABLE public.conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE public.conversation_members (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX idx_conversation_members_user ON public.conversation_members(user_id);
+
+-- A message goes either to one user or to one conversation
+ALTER TABLE public.messages
+  ALTER COLUMN recipient_id DROP NOT NULL,
+  ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  ADD CONSTRAINT messages_single_destination CHECK ((recipient_id IS NULL) <> (conversation_id IS NULL));
+
+CREATE INDEX idx_messages_conversation ON public.messages(conversation_id, created_at DESC);
+
+-- Sender keys, one row per (key, recipient member); the sender addresses a copy to
+-- themselves too, so their own history stays readable on other devices
+CREATE TABLE public.sender_keys (
+  id UUID PRIMARY KEY, -- Chosen by the client and bound into the envelope
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key_id TEXT NOT NULL, -- Random id of the sender key, named in group message envelopes
+  ciphertext TEXT NOT NULL, -- Encoded envelope holding the sender key
+  iv TEXT NOT NULL,
+  encrypted_keys JSONB NOT NULL,
+  envelope_version SMALLINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (conversation_id, sender_id, recipient_id, key_id)
+);
+
+CREATE INDEX idx_sender_keys_recipient ON public.sender_keys(recipient_id, conversation_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sender_keys ENABLE ROW LEVEL SECURITY;
+
+-- Membership check for policies; SECURITY DEFINER so policies on
+-- conversation_members can use it without recursing into themselves
+CREATE OR REPLACE FUNCTION public.is_conversation_member(conversation UUID, member UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversation_members
+    WHERE conversation_id = conversation AND user_id = member
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_conversation_member(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_conversation_member(UUID, UUID) TO authenticated;
+
+-- Conversations and members are only written by create_conversation
+CREATE POLICY "Members can view their conversations"
+  ON public.conversations FOR SELECT
+  USING (public.is_conversation_member(id, auth.uid()));
+
+CREATE POLICY "Members can view the members of their conversations"
+  ON public.conversation_members FOR SELECT
+  USING (public.is_conversation_member(conversation_id, auth.uid()));
+
+CREATE POLICY "Members can view conversation messages"
+  ON public.messages FOR SELECT
+  USING (conversation_id IS NOT NULL AND public.is_conversation_member(conversation_id, auth.uid()));
+
+-- Senders may only post to conversations they belong to
+DROP POLICY "Users can send messages" ON public.messages;
+
+CREATE POLICY "Users can send messages"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND (conversation_id IS NULL OR public.is_conversation_member(conversation_id, auth.uid()))
+  );
+
+CREATE POLICY "Users can view sender keys they sent or received"
+  ON public.sender_keys FOR SELECT
+  USING (auth.uid() = sender_id OR auth.uid() = recipient_id);
+
+CREATE POLICY "Members can distribute their own sender keys"
+  ON public.sender_keys FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND public.is_conversation_member(conversation_id, sender_id)
+    AND public.is_conversation_member(conversation_id, recipient_id)
+  );
+
+-- Group attachments live under <sender id>/<conversation id>/...
+CREATE POLICY "Conversation members can view attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND EXISTS (
+      SELECT 1
+      FROM public.conversation_members
+      WHERE conversation_id::text = (storage.foldername(name))[2]
+        AND user_id = auth.uid()
+    )
+  );
+
+-- Create a conversation with the caller and the given users as members
+CREATE OR REPLACE FUNCTION public.create_conversation(name TEXT, member_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF btrim(create_conversation.name) = '' THEN
+    RAISE EXCEPTION 'Conversation name is required';
+  END IF;
+
+  INSERT INTO public.conversations (name, created_by)
+  VALUES (btrim(create_conversation.name), auth.uid())
+  RETURNING id INTO new_conversation_id;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  SELECT DISTINCT new_conversation_id, member_id
+  FROM unnest(array_append(member_ids, auth.uid())) AS member_id;
+
+  RETURN new_conversation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_conversation(TEXT, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_conversation(TEXT, UUID[]) TO authenticated;
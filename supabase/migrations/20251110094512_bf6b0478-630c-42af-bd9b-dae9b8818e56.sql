@@ -0,0 +1,243 @@
+-- Group membership administration. Members have a role: the owner manages
+-- everything, admins invite people and remove plain members, members can only
+-- leave. Membership only changes through the functions below.
+--
+-- Every removal or departure bumps the conversation's key epoch. Sender keys are
+-- tagged with the epoch they were created in and only current-epoch keys can be
+-- distributed, so each remaining member's next message goes out under a fresh
+-- sender key that the departed member never receives.
+ALTER TABLE public.conversation_members
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member'));
+
+UPDATE public.conversation_members AS m
+SET role = 'owner'
+FROM public.conversations AS c
+WHERE c.id = m.conversation_id AND c.created_by = m.user_id;
+
+ALTER TABLE public.conversations
+  ADD COLUMN key_epoch INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.sender_keys
+  ADD COLUMN epoch INTEGER NOT NULL DEFAULT 0;
+
+DROP POLICY "Members can distribute their own sender keys" ON public.sender_keys;
+
+CREATE POLICY "Members can distribute their own sender keys"
+  ON public.sender_keys FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND public.is_conversation_member(conversation_id, sender_id)
+    AND public.is_conversation_member(conversation_id, recipient_id)
+    AND epoch = (SELECT key_epoch FROM public.conversations WHERE id = conversation_id)
+  );
+
+-- The creator now becomes the owner
+CREATE OR REPLACE FUNCTION public.create_conversation(name TEXT, member_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF btrim(create_conversation.name) = '' THEN
+    RAISE EXCEPTION 'Conversation name is required';
+  END IF;
+
+  INSERT INTO public.conversations (name, created_by)
+  VALUES (btrim(create_conversation.name), auth.uid())
+  RETURNING id INTO new_conversation_id;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (new_conversation_id, auth.uid(), 'owner');
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  SELECT DISTINCT new_conversation_id, member_id
+  FROM unnest(member_ids) AS member_id
+  WHERE member_id <> auth.uid();
+
+  RETURN new_conversation_id;
+END;
+$$;
+
+-- Role of a user in a conversation, or NULL if they are not a member
+CREATE OR REPLACE FUNCTION public.conversation_role(conversation UUID, member UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+  FROM public.conversation_members
+  WHERE conversation_id = conversation AND user_id = member;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.conversation_role(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.conversation_role(UUID, UUID) TO authenticated;
+
+-- Owners and admins can invite; invited users join as plain members
+CREATE OR REPLACE FUNCTION public.add_conversation_member(conversation UUID, member UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF public.conversation_role(conversation, auth.uid()) IS DISTINCT FROM 'owner'
+    AND public.conversation_role(conversation, auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only owners and admins can invite members';
+  END IF;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  VALUES (conversation, member)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_conversation_member(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_conversation_member(UUID, UUID) TO authenticated;
+
+-- The owner can remove anyone else, admins only plain members
+CREATE OR REPLACE FUNCTION public.remove_conversation_member(conversation UUID, member UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_role TEXT;
+  target_role TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF member = auth.uid() THEN
+    RAISE EXCEPTION 'Use leave_conversation to leave a conversation';
+  END IF;
+
+  -- Serialize membership changes of the conversation
+  PERFORM 1 FROM public.conversations WHERE id = conversation FOR UPDATE;
+
+  actor_role := public.conversation_role(conversation, auth.uid());
+  target_role := public.conversation_role(conversation, member);
+
+  IF target_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this conversation';
+  END IF;
+
+  IF actor_role IS DISTINCT FROM 'owner'
+    AND NOT (actor_role = 'admin' AND target_role = 'member') THEN
+    RAISE EXCEPTION 'Not allowed to remove this member';
+  END IF;
+
+  DELETE FROM public.conversation_members
+  WHERE conversation_id = conversation AND user_id = member;
+
+  UPDATE public.conversations
+  SET key_epoch = key_epoch + 1
+  WHERE id = conversation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.remove_conversation_member(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.remove_conversation_member(UUID, UUID) TO authenticated;
+
+-- Leave a conversation. A departing owner hands ownership to the longest-standing
+-- admin, or else member; the last member leaving deletes the conversation.
+CREATE OR REPLACE FUNCTION public.leave_conversation(conversation UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  leaving_role TEXT;
+  successor UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM public.conversations WHERE id = conversation FOR UPDATE;
+
+  leaving_role := public.conversation_role(conversation, auth.uid());
+  IF leaving_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this conversation';
+  END IF;
+
+  DELETE FROM public.conversation_members
+  WHERE conversation_id = conversation AND user_id = auth.uid();
+
+  SELECT user_id INTO successor
+  FROM public.conversation_members
+  WHERE conversation_id = conversation
+  ORDER BY (role = 'admin') DESC, joined_at ASC
+  LIMIT 1;
+
+  IF successor IS NULL THEN
+    DELETE FROM public.conversations WHERE id = conversation;
+    RETURN;
+  END IF;
+
+  IF leaving_role = 'owner' THEN
+    UPDATE public.conversation_members
+    SET role = 'owner'
+    WHERE conversation_id = conversation AND user_id = successor;
+  END IF;
+
+  UPDATE public.conversations
+  SET key_epoch = key_epoch + 1
+  WHERE id = conversation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.leave_conversation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.leave_conversation(UUID) TO authenticated;
+
+-- The owner promotes members to admin and demotes admins
+CREATE OR REPLACE FUNCTION public.set_conversation_member_role(conversation UUID, member UUID, new_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF new_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role %', new_role;
+  END IF;
+
+  IF public.conversation_role(conversation, auth.uid()) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can change roles';
+  END IF;
+
+  IF member = auth.uid() THEN
+    RAISE EXCEPTION 'The owner cannot change their own role';
+  END IF;
+
+  UPDATE public.conversation_members
+  SET role = new_role
+  WHERE conversation_id = conversation AND user_id = member;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this conversation';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_conversation_member_role(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_conversation_member_role(UUID, UUID, TEXT) TO authenticated;
@@ -0,0 +1,79 @@
+-- Encrypted conversation metadata. Group names, topics and avatars are encrypted
+-- in the browser as one envelope whose AES key is wrapped to every member's
+-- identity key, and stored as an opaque blob. The plaintext name column is only
+-- kept for groups created before this migration; saving their settings clears it.
+ALTER TABLE public.conversations
+  ALTER COLUMN name DROP NOT NULL,
+  ADD COLUMN metadata JSONB, -- {id, senderId, envelopeVersion, ciphertext, iv, encryptedKeys}
+  ADD COLUMN metadata_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Envelopes are bound to the conversation id, so the client picks it up front
+DROP FUNCTION public.create_conversation(TEXT, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.create_conversation(
+  conversation UUID,
+  member_ids UUID[],
+  encrypted_metadata JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF encrypted_metadata->>'senderId' IS DISTINCT FROM auth.uid()::text THEN
+    RAISE EXCEPTION 'Metadata must be encrypted by the caller';
+  END IF;
+
+  INSERT INTO public.conversations (id, created_by, metadata, metadata_updated_at)
+  VALUES (conversation, auth.uid(), encrypted_metadata, NOW());
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (conversation, auth.uid(), 'owner');
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  SELECT DISTINCT conversation, member_id
+  FROM unnest(member_ids) AS member_id
+  WHERE member_id <> auth.uid();
+
+  RETURN conversation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_conversation(UUID, UUID[], JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_conversation(UUID, UUID[], JSONB) TO authenticated;
+
+-- Owners and admins replace the metadata, e.g. after editing it or when the
+-- membership changed and it has to be encrypted to the new member list
+CREATE OR REPLACE FUNCTION public.update_conversation_metadata(conversation UUID, encrypted_metadata JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF public.conversation_role(conversation, auth.uid()) IS DISTINCT FROM 'owner'
+    AND public.conversation_role(conversation, auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only owners and admins can change conversation settings';
+  END IF;
+
+  IF encrypted_metadata->>'senderId' IS DISTINCT FROM auth.uid()::text THEN
+    RAISE EXCEPTION 'Metadata must be encrypted by the caller';
+  END IF;
+
+  UPDATE public.conversations
+  SET metadata = encrypted_metadata, name = NULL, metadata_updated_at = NOW()
+  WHERE id = conversation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_conversation_metadata(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_conversation_metadata(UUID, JSONB) TO authenticated;
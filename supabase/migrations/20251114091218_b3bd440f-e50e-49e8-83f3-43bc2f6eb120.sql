@@ -0,0 +1,13 @@
+-- Keyset pagination of conversation history on (created_at, id). The pair index
+-- serves each direction of a direct conversation in page order; the id column
+-- breaks ties between messages sent in the same instant.
+CREATE INDEX idx_messages_pair_page
+  ON public.messages(sender_id, recipient_id, created_at DESC, id DESC)
+  WHERE recipient_id IS NOT NULL;
+
+CREATE INDEX idx_messages_conversation_page
+  ON public.messages(conversation_id, created_at DESC, id DESC)
+  WHERE conversation_id IS NOT NULL;
+
+-- Superseded by idx_messages_conversation_page
+DROP INDEX public.idx_messages_conversation;
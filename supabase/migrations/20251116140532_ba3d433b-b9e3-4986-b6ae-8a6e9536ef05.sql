@@ -0,0 +1,3 @@
+-- Realtime for membership, so clients start listening to a group's messages as
+-- soon as they are added to it
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_members;
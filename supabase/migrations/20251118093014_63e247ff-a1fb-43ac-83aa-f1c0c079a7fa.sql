@@ -0,0 +1,27 @@
+-- Members only see a conversation's history from the moment they joined. Until now
+-- an invitee could read every message sent before they were added.
+
+-- When the member joined the conversation, or NULL if they are not a member
+CREATE OR REPLACE FUNCTION public.conversation_joined_at(conversation UUID, member UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT joined_at
+  FROM public.conversation_members
+  WHERE conversation_id = conversation AND user_id = member;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.conversation_joined_at(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.conversation_joined_at(UUID, UUID) TO authenticated;
+
+DROP POLICY "Members can view conversation messages" ON public.messages;
+
+CREATE POLICY "Members can view conversation messages since they joined"
+  ON public.messages FOR SELECT
+  USING (
+    conversation_id IS NOT NULL
+    AND created_at >= public.conversation_joined_at(conversation_id, auth.uid())
+  );
@@ -0,0 +1,33 @@
+-- Adding a member starts a new key epoch, like removing one already does, so
+-- the new member never receives a sender key that earlier messages were sent under
+CREATE OR REPLACE FUNCTION public.add_conversation_member(conversation UUID, member UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Serialize membership changes of the conversation
+  PERFORM 1 FROM public.conversations WHERE id = conversation FOR UPDATE;
+
+  IF public.conversation_role(conversation, auth.uid()) IS DISTINCT FROM 'owner'
+    AND public.conversation_role(conversation, auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only owners and admins can invite members';
+  END IF;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  VALUES (conversation, member)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  -- Inviting an existing member changes nothing
+  IF FOUND THEN
+    UPDATE public.conversations
+    SET key_epoch = key_epoch + 1
+    WHERE id = conversation;
+  END IF;
+END;
+$$;
@@ -0,0 +1,78 @@
+-- Hashes of the complete subtrees of the key log's Merkle tree, so the key-log edge
+-- function builds tree heads and proofs from O(log n) stored nodes instead of
+-- loading and rehashing every leaf on each request. Node (level, node_index)
+-- covers leaves [node_index * 2^level, (node_index + 1) * 2^level); the leaves
+-- themselves are level 0.
+CREATE TABLE public.key_log_nodes (
+  level SMALLINT NOT NULL,
+  node_index BIGINT NOT NULL,
+  hash TEXT NOT NULL, -- Hex SHA-256, leaves as in key_log.leaf_hash
+  PRIMARY KEY (level, node_index)
+);
+
+ALTER TABLE public.key_log_nodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Key log nodes are viewable by everyone"
+  ON public.key_log_nodes FOR SELECT
+  USING (true);
+
+-- Store a leaf and every subtree it completes. Leaves arrive in log order, as
+-- append_key_log serializes appends.
+CREATE OR REPLACE FUNCTION public.store_key_log_leaf(leaf_index BIGINT, leaf_hash TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  node_level SMALLINT := 0;
+  node_position BIGINT := leaf_index;
+  node_hash BYTEA := decode(leaf_hash, 'hex');
+  sibling_hash TEXT;
+BEGIN
+  LOOP
+    INSERT INTO public.key_log_nodes (level, node_index, hash)
+    VALUES (node_level, node_position, encode(node_hash, 'hex'));
+
+    -- Only a right child completes its parent
+    EXIT WHEN node_position % 2 = 0;
+
+    SELECT hash INTO sibling_hash
+    FROM public.key_log_nodes
+    WHERE level = node_level AND node_index = node_position - 1;
+
+    node_hash := extensions.digest('\x01'::bytea || decode(sibling_hash, 'hex') || node_hash, 'sha256');
+    node_level := node_level + 1;
+    node_position := node_position / 2;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.store_key_log_leaf(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.on_key_log_leaf()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.store_key_log_leaf(NEW.log_index, NEW.leaf_hash);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_key_log_appended
+  AFTER INSERT ON public.key_log
+  FOR EACH ROW EXECUTE FUNCTION public.on_key_log_leaf();
+
+-- Build the nodes of the leaves logged so far, in log order
+DO $$
+DECLARE
+  leaf RECORD;
+BEGIN
+  FOR leaf IN SELECT log_index, leaf_hash FROM public.key_log ORDER BY log_index LOOP
+    PERFORM public.store_key_log_leaf(leaf.log_index, leaf.leaf_hash);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,163 @@
+-- Signing keys are revoked and rotated together with the identity key. Until now
+-- whoever held a revoked identity key kept a signing key that still verified, so
+-- their messages could not be told apart from the owner's.
+
+-- Signing keys that have been replaced by a rotation, so older signatures still verify
+CREATE TABLE public.signing_key_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  public_key TEXT NOT NULL, -- Retired signing public key in PEM format
+  retired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_signing_key_history_user ON public.signing_key_history(user_id, retired_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.signing_key_history ENABLE ROW LEVEL SECURITY;
+
+-- History is public like the keys themselves; rows are only written by rotate_identity_key
+CREATE POLICY "Signing key history is viewable by everyone"
+  ON public.signing_key_history FOR SELECT
+  USING (true);
+
+ALTER TABLE public.key_revocations
+ADD COLUMN signing_public_key TEXT; -- Signing key revoked with the identity key, NULL for earlier revocations
+
+-- Keys revoked before this migration and not yet rotated are still in use, signing key included
+UPDATE public.key_revocations r
+SET signing_public_key = p.signing_public_key
+FROM public.profiles p
+WHERE p.id = r.user_id
+  AND p.key_revoked_at IS NOT NULL
+  AND p.public_key = r.public_key;
+
+-- Revoke the caller's current identity key and signing key with a signed statement naming both
+CREATE OR REPLACE FUNCTION public.revoke_identity_key(statement TEXT, signature TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_profile public.profiles%ROWTYPE;
+  revoked TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO current_profile
+  FROM public.profiles
+  WHERE id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF current_profile.key_revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Key is already revoked';
+  END IF;
+
+  IF (statement::jsonb)->>'userId' IS DISTINCT FROM auth.uid()::text
+    OR (statement::jsonb)->>'publicKey' IS DISTINCT FROM current_profile.public_key
+    OR (statement::jsonb)->>'signingPublicKey' IS DISTINCT FROM current_profile.signing_public_key THEN
+    RAISE EXCEPTION 'Revocation statement does not name the current keys';
+  END IF;
+
+  INSERT INTO public.key_revocations (
+    user_id, public_key, key_type, signing_public_key, statement, signature, revoked_at
+  )
+  VALUES (
+    auth.uid(), current_profile.public_key, current_profile.key_type,
+    current_profile.signing_public_key, statement, signature, revoked
+  );
+
+  UPDATE public.profiles
+  SET key_revoked_at = revoked
+  WHERE id = auth.uid();
+
+  RETURN revoked;
+END;
+$$;
+
+-- The rotation now replaces the signing key too
+DROP FUNCTION public.rotate_identity_key(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rotate_identity_key(
+  new_public_key TEXT,
+  new_key_type TEXT,
+  new_signing_public_key TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_profile public.profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO current_profile
+  FROM public.profiles
+  WHERE id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF current_profile.public_key = new_public_key THEN
+    RETURN;
+  END IF;
+
+  IF new_signing_public_key IS NULL
+    OR new_signing_public_key = current_profile.signing_public_key
+    OR EXISTS (
+      SELECT 1 FROM public.signing_key_history
+      WHERE user_id = auth.uid() AND public_key = new_signing_public_key
+    ) THEN
+    RAISE EXCEPTION 'A rotation needs a new signing key';
+  END IF;
+
+  INSERT INTO public.key_history (user_id, public_key, key_type)
+  VALUES (auth.uid(), current_profile.public_key, current_profile.key_type);
+
+  IF current_profile.signing_public_key IS NOT NULL THEN
+    INSERT INTO public.signing_key_history (user_id, public_key)
+    VALUES (auth.uid(), current_profile.signing_public_key);
+  END IF;
+
+  UPDATE public.profiles
+  SET public_key = new_public_key,
+      key_type = new_key_type,
+      signing_public_key = new_signing_public_key,
+      key_revoked_at = NULL
+  WHERE id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_identity_key(TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_identity_key(TEXT, TEXT, TEXT) TO authenticated;
+
+-- Signatures cover the client's send time, and revocation and rotation times are
+-- compared against it; reject messages that claim a time far from the server's
+CREATE OR REPLACE FUNCTION public.check_message_time()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_at NOT BETWEEN NOW() - INTERVAL '5 minutes' AND NOW() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Message time is too far from the server time';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_inserted
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_message_time();
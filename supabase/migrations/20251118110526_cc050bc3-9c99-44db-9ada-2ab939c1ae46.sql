@@ -0,0 +1,99 @@
+-- When each signing key was published. Messages sent before a sender's first
+-- signing key carry no signature, so clients only expect one after that time.
+ALTER TABLE public.profiles
+ADD COLUMN signing_key_published_at TIMESTAMP WITH TIME ZONE; -- Set while signing_public_key is
+
+ALTER TABLE public.signing_key_history
+ADD COLUMN published_at TIMESTAMP WITH TIME ZONE; -- When the retired key was published
+
+-- Until now signing keys were only published at signup
+UPDATE public.profiles
+SET signing_key_published_at = COALESCE(created_at, NOW())
+WHERE signing_public_key IS NOT NULL;
+
+UPDATE public.signing_key_history h
+SET published_at = COALESCE(p.created_at, h.retired_at)
+FROM public.profiles p
+WHERE p.id = h.user_id;
+
+ALTER TABLE public.signing_key_history
+ALTER COLUMN published_at SET NOT NULL;
+
+-- Stamp every new signing key, whether set at signup or by a rotation
+CREATE OR REPLACE FUNCTION public.stamp_signing_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.signing_public_key IS NULL THEN
+    NEW.signing_key_published_at := NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.signing_public_key IS DISTINCT FROM OLD.signing_public_key THEN
+    NEW.signing_key_published_at := NOW();
+  ELSE
+    NEW.signing_key_published_at := OLD.signing_key_published_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_signing_key_published
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_signing_key();
+
+-- Keep the publication time of the signing key a rotation retires
+CREATE OR REPLACE FUNCTION public.rotate_identity_key(
+  new_public_key TEXT,
+  new_key_type TEXT,
+  new_signing_public_key TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_profile public.profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO current_profile
+  FROM public.profiles
+  WHERE id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF current_profile.public_key = new_public_key THEN
+    RETURN;
+  END IF;
+
+  IF new_signing_public_key IS NULL
+    OR new_signing_public_key = current_profile.signing_public_key
+    OR EXISTS (
+      SELECT 1 FROM public.signing_key_history
+      WHERE user_id = auth.uid() AND public_key = new_signing_public_key
+    ) THEN
+    RAISE EXCEPTION 'A rotation needs a new signing key';
+  END IF;
+
+  INSERT INTO public.key_history (user_id, public_key, key_type)
+  VALUES (auth.uid(), current_profile.public_key, current_profile.key_type);
+
+  IF current_profile.signing_public_key IS NOT NULL THEN
+    INSERT INTO public.signing_key_history (user_id, public_key, published_at)
+    VALUES (auth.uid(), current_profile.signing_public_key, current_profile.signing_key_published_at);
+  END IF;
+
+  UPDATE public.profiles
+  SET public_key = new_public_key,
+      key_type = new_key_type,
+      signing_public_key = new_signing_public_key,
+      key_revoked_at = NULL
+  WHERE id = auth.uid();
+END;
+$$;
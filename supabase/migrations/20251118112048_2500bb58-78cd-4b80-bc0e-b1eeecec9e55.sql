@@ -0,0 +1,8 @@
+-- Device registrations are signed with the owner's signing key. Senders only
+-- encrypt to devices whose signature verifies, so a device row added by anyone
+-- but the owner never receives message keys.
+ALTER TABLE public.devices
+ADD COLUMN signature TEXT; -- Base64 signature of (user id, device id, public key), NULL until signed
+
+-- Devices sign themselves again after their owner rotates the signing key
+GRANT UPDATE (signature) ON public.devices TO authenticated;